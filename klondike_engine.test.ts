@@ -0,0 +1,650 @@
+import { describe, expect, it } from "vitest";
+import {
+  CardType,
+  DEFAULT_RULES,
+  GameState,
+  Move,
+  Rank,
+  Rules,
+  Suit,
+  VARIANTS,
+  VariantId,
+  applyMove,
+  clickMoveFor,
+  cloneState,
+  createRng,
+  findHints,
+  initializeGame,
+  isSafeToFoundation,
+  legalMoves,
+  moveError,
+  nextSafeMove,
+  pileOf,
+  scoreTransition,
+  stateProblems,
+  stuckReason,
+} from "./klondike_engine";
+
+const SUIT_LETTERS: Record<string, Suit> = {
+  H: "HEARTS",
+  D: "DIAMONDS",
+  C: "CLUBS",
+  S: "SPADES",
+};
+
+// "QH JS 10D?" reads bottom to top; a trailing ? is a face-down card
+const cards = (text: string): CardType[] =>
+  text
+    .split(" ")
+    .filter(Boolean)
+    .map((code) => {
+      const isFaceUp = !code.endsWith("?");
+      const c = isFaceUp ? code : code.slice(0, -1);
+      return {
+        rank: c.slice(0, -1) as Rank,
+        suit: SUIT_LETTERS[c[c.length - 1]],
+        isFaceUp,
+      };
+    });
+
+interface Layout {
+  stock?: string;
+  waste?: string;
+  foundation?: string[];
+  cells?: string[];
+  tableau?: string[];
+}
+
+// a position with only the given piles filled, the rest empty
+const board = (
+  variant: VariantId,
+  layout: Layout,
+  rules: Partial<Rules> = {}
+): GameState => {
+  const v = VARIANTS[variant];
+  const piles = (n: number, given: string[] = []) =>
+    Array.from({ length: n }, (_, i) => ({ cards: cards(given[i] ?? "") }));
+  return {
+    stock: cards(layout.stock ?? ""),
+    waste: cards(layout.waste ?? ""),
+    foundation: piles(v.foundations, layout.foundation),
+    cells: piles(v.cells, layout.cells),
+    tableau: piles(v.deal(createRng(0)).tableau.length, layout.tableau),
+    rules: { ...DEFAULT_RULES, variant, ...rules },
+    recycles: 0,
+    score: 0,
+    moves: 0,
+  };
+};
+
+const move = (source: string, index: number, target: string): Move => ({
+  type: "move",
+  source,
+  index,
+  target,
+});
+const STOCK: Move = { type: "stock" };
+
+const play = (g: GameState, m: Move) => {
+  const result = applyMove(g, m);
+  if (!result.ok) throw new Error(result.error);
+  return result.state;
+};
+const errorOf = (g: GameState, m: Move) => {
+  const result = applyMove(g, m);
+  return result.ok ? null : result.error;
+};
+const codes = (pile: CardType[]) =>
+  pile.map((c) => `${c.rank}${c.suit[0]}${c.isFaceUp ? "" : "?"}`).join(" ");
+
+const VARIANT_IDS = Object.keys(VARIANTS) as VariantId[];
+
+describe("applyMove errors", () => {
+  const g = board("klondike", {
+    waste: "3C 4H",
+    foundation: ["AS"],
+    tableau: ["KD? QS", "9D", "", "9H? 8S 7D"],
+  });
+
+  it.each<[string, GameState, Move, string]>([
+    [
+      "stock in a game without one",
+      board("freecell", {}),
+      STOCK,
+      "FreeCell has no stock",
+    ],
+    [
+      "dealing with an empty column",
+      board("spider1", { stock: "AS? 2S?", tableau: ["KS"] }),
+      STOCK,
+      "every column needs a card before dealing",
+    ],
+    [
+      "dealing from an empty spider stock",
+      board("spider1", {}),
+      STOCK,
+      "the stock is empty",
+    ],
+    [
+      "drawing with nothing left",
+      board("klondike", {}),
+      STOCK,
+      "the stock and waste are both empty",
+    ],
+    [
+      "an unknown source",
+      g,
+      move("tableau-9", 0, "tableau-0"),
+      'no pile called "tableau-9"',
+    ],
+    [
+      "an unknown target",
+      g,
+      move("waste", 1, "heap-0"),
+      'no pile called "heap-0"',
+    ],
+    [
+      "taking from the stock",
+      board("klondike", { stock: "AS?" }),
+      move("stock", 0, "tableau-0"),
+      "cards can't be taken from the stock",
+    ],
+    [
+      "putting on the waste",
+      g,
+      move("tableau-1", 0, "waste"),
+      "cards can't be put on the waste",
+    ],
+    [
+      "a pile onto itself",
+      g,
+      move("tableau-1", 0, "tableau-1"),
+      "a card can't move onto its own pile",
+    ],
+    [
+      "foundation to foundation",
+      g,
+      move("foundation-0", 0, "foundation-1"),
+      "cards can't move between foundations",
+    ],
+    [
+      "a card that isn't there",
+      g,
+      move("tableau-1", 3, "tableau-0"),
+      "tableau 2 has no card 3",
+    ],
+    [
+      "a face-down card",
+      g,
+      move("tableau-3", 0, "tableau-2"),
+      "9 of hearts is face down",
+    ],
+    [
+      "from under the top of the waste",
+      g,
+      move("waste", 0, "tableau-3"),
+      "only the top card of the waste can move",
+    ],
+    [
+      "the wrong foundation card",
+      g,
+      move("waste", 1, "foundation-0"),
+      "4 of hearts doesn't go on foundation 1",
+    ],
+    [
+      "the wrong tableau card",
+      g,
+      move("tableau-1", 0, "tableau-3"),
+      "9 of diamonds doesn't go on tableau 4",
+    ],
+    [
+      "a non-king to an empty klondike column",
+      g,
+      move("tableau-3", 2, "tableau-2"),
+      "7 of diamonds doesn't go on tableau 3",
+    ],
+    [
+      "a run to a free cell",
+      board("freecell", { tableau: ["9H 8S"] }),
+      move("tableau-0", 0, "cell-0"),
+      "a cell holds a single card",
+    ],
+    [
+      "a taken free cell",
+      board("freecell", { cells: ["KH"], tableau: ["8S"] }),
+      move("tableau-0", 0, "cell-0"),
+      "cell 1 is taken",
+    ],
+    [
+      "a broken run in freecell",
+      board("freecell", { tableau: ["9H 8H", "10S"] }),
+      move("tableau-0", 0, "tableau-1"),
+      "9 of hearts can't be moved with the cards on it",
+    ],
+    [
+      "a mixed-suit run in spider",
+      board("spider2", { tableau: ["9H 8S", "10H"] }),
+      move("tableau-0", 0, "tableau-1"),
+      "9 of hearts can't be moved with the cards on it",
+    ],
+    [
+      "to a spider foundation",
+      board("spider1", { tableau: ["AS"] }),
+      move("tableau-0", 0, "foundation-0"),
+      "finished runs go to the foundations by themselves",
+    ],
+  ])("refuses %s", (_, state, m, error) => {
+    expect(errorOf(state, m)).toBe(error);
+    expect(moveError(state, m)).toBe(error);
+  });
+
+  it("leaves the state it was given alone", () => {
+    const before = JSON.stringify(g);
+    play(g, move("tableau-3", 1, "tableau-1"));
+    errorOf(g, move("tableau-1", 0, "tableau-3"));
+    expect(JSON.stringify(g)).toBe(before);
+  });
+});
+
+describe("moving from the middle of a column", () => {
+  const g = board("klondike", {
+    foundation: ["AH 2H 3H 4H 5H 6H 7H 8H 9H 10H JH"],
+    tableau: ["KS? QH JS", "KC", "QD"],
+  });
+
+  // the click handler used to splice(index, 1) the card out from under
+  // the ones on it
+  it("won't lift a buried card to a foundation", () => {
+    expect(errorOf(g, move("tableau-0", 1, "foundation-0"))).toBe(
+      "only one card at a time goes to a foundation"
+    );
+  });
+
+  it("takes the card and everything on it to a column", () => {
+    const ng = play(g, move("tableau-0", 1, "tableau-1"));
+    expect(codes(ng.tableau[1].cards)).toBe("KC QH JS");
+    expect(codes(ng.tableau[0].cards)).toBe("KS");
+  });
+
+  it("turns up the card left on top", () => {
+    const ng = play(
+      play(g, move("tableau-0", 2, "tableau-2")),
+      move("tableau-0", 1, "foundation-0")
+    );
+    expect(codes(ng.foundation[0].cards)).toMatch(/JH QH$/);
+    expect(codes(ng.tableau[0].cards)).toBe("KS");
+  });
+});
+
+describe("drawing and recycling", () => {
+  it("turns three over at a time in draw three", () => {
+    const g = board(
+      "klondike",
+      { stock: "AS? 2S? 3S? 4S? 5S?" },
+      {
+        drawCount: 3,
+      }
+    );
+    const once = play(g, STOCK);
+    expect(codes(once.waste)).toBe("5S 4S 3S");
+    expect(codes(once.stock)).toBe("AS? 2S?");
+    const twice = play(once, STOCK);
+    expect(codes(twice.waste)).toBe("5S 4S 3S 2S AS");
+    expect(twice.stock).toHaveLength(0);
+  });
+
+  it("turns the waste back over in its old order", () => {
+    const g = board("klondike", { stock: "AS? 2S? 3S?" });
+    const drawn = play(play(play(g, STOCK), STOCK), STOCK);
+    const recycled = play(drawn, STOCK);
+    expect(codes(recycled.stock)).toBe(codes(g.stock));
+    expect(recycled.waste).toHaveLength(0);
+    expect(recycled.recycles).toBe(1);
+  });
+
+  it("stops once the pass limit is used up", () => {
+    const g = board("klondike", { waste: "AS 2S" }, { passLimit: 2 });
+    const second = play(g, STOCK);
+    expect(second.recycles).toBe(1);
+    const drained = play(play(second, STOCK), STOCK);
+    expect(errorOf(drained, STOCK)).toBe(
+      "no passes through the stock are left"
+    );
+  });
+
+  it("never recycles with a single pass", () => {
+    const g = board("klondike", { waste: "AS" }, { passLimit: 1 });
+    expect(errorOf(g, STOCK)).toBe("no passes through the stock are left");
+  });
+
+  it("recycles forever without a limit", () => {
+    let g = board("klondike", { waste: "AS" });
+    for (let i = 0; i < 10; i++) g = play(play(g, STOCK), STOCK);
+    expect(g.recycles).toBe(10);
+  });
+});
+
+describe("spider", () => {
+  const run = "KS QS JS 10S 9S 8S 7S 6S 5S 4S 3S 2S";
+
+  it("collects a finished run and turns up the card under it", () => {
+    const g = board("spider1", { tableau: [`9S? ${run}`, "AS"] });
+    const ng = play(g, move("tableau-1", 0, "tableau-0"));
+    expect(codes(ng.foundation[0].cards)).toBe(`${run} AS`);
+    expect(codes(ng.tableau[0].cards)).toBe("9S");
+    expect(ng.tableau[1].cards).toHaveLength(0);
+  });
+
+  it("leaves a king-to-ace run of mixed suits", () => {
+    const g = board("spider2", { tableau: [run, "AH"] });
+    const ng = play(g, move("tableau-1", 0, "tableau-0"));
+    expect(ng.tableau[0].cards).toHaveLength(13);
+    expect(ng.foundation.every((f) => f.cards.length === 0)).toBe(true);
+  });
+
+  it("deals one card face up onto every column", () => {
+    const stock = Array(10).fill("AS?").join(" ");
+    const tableau = Array(10).fill("KS");
+    const ng = play(board("spider1", { stock, tableau }), STOCK);
+    expect(ng.stock).toHaveLength(0);
+    expect(ng.tableau.every((t) => codes(t.cards) === "KS AS")).toBe(true);
+  });
+});
+
+describe("freecell move limit", () => {
+  const run = (n: number) =>
+    ["KS", "QH", "JS", "10H", "9S", "8H", "7S"].slice(-n).join(" ");
+
+  it("moves one more card than there are free cells", () => {
+    const g = board("freecell", {
+      cells: ["AH", "AD", "AC"],
+      tableau: [run(3), "10D", "2C", "2D", "2H", "2S", "3C", "3D"],
+    });
+    expect(errorOf(g, move("tableau-0", 0, "tableau-1"))).toBe(
+      "9 of spades can't be moved with the cards on it"
+    );
+    const two = board("freecell", {
+      cells: ["AH", "AD", "AC"],
+      tableau: [run(2), "9S", "2C", "2D", "2H", "2S", "3C", "3D"],
+    });
+    expect(errorOf(two, move("tableau-0", 0, "tableau-1"))).toBeNull();
+  });
+
+  it("doubles for each empty column, except the one moved to", () => {
+    const layout = {
+      cells: ["AH", "AD", "AC", "AS"],
+      tableau: [run(2), "9S", "", "2D", "2H", "2S", "3C", "3D"],
+    };
+    const g = board("freecell", layout);
+    expect(errorOf(g, move("tableau-0", 0, "tableau-1"))).toBeNull();
+    expect(errorOf(g, move("tableau-0", 0, "tableau-2"))).toBe(
+      "8 of hearts can't be moved with the cards on it"
+    );
+    expect(errorOf(g, move("tableau-0", 1, "tableau-2"))).toBeNull();
+  });
+});
+
+describe("legalMoves", () => {
+  // every move that could be named in the position, legal or not
+  const everyMove = (g: GameState): Move[] => {
+    const piles = [
+      "stock",
+      "waste",
+      ...g.foundation.map((_, i) => `foundation-${i}`),
+      ...g.cells.map((_, i) => `cell-${i}`),
+      ...g.tableau.map((_, i) => `tableau-${i}`),
+    ];
+    const moves: Move[] = [STOCK];
+    piles.forEach((source) => {
+      for (let index = 0; index <= pileOf(g, source).length; index++)
+        piles.forEach((target) => moves.push(move(source, index, target)));
+    });
+    return moves;
+  };
+
+  it.each(VARIANT_IDS)("agrees with moveError through %s games", (variant) => {
+    const rng = createRng(7);
+    for (let seed = 1; seed <= 3; seed++) {
+      let g = initializeGame(seed, { ...DEFAULT_RULES, variant });
+      for (let step = 0; step < 60; step++) {
+        const legal = legalMoves(g);
+        const accepted = everyMove(g).filter((m) => !moveError(g, m));
+        expect(legal.map((m) => JSON.stringify(m)).sort()).toEqual(
+          accepted.map((m) => JSON.stringify(m)).sort()
+        );
+        if (legal.length === 0) break;
+        g = play(g, legal[Math.floor(rng() * legal.length)]);
+      }
+    }
+  });
+});
+
+describe("stateProblems", () => {
+  it.each(VARIANT_IDS)("finds nothing wrong with a %s deal", (variant) => {
+    expect(
+      stateProblems(initializeGame(3, { ...DEFAULT_RULES, variant }))
+    ).toEqual([]);
+  });
+
+  it.each(VARIANT_IDS)("finds nothing wrong after %s moves", (variant) => {
+    const rng = createRng(11);
+    let g = initializeGame(5, { ...DEFAULT_RULES, variant });
+    for (let step = 0; step < 200; step++) {
+      const legal = legalMoves(g);
+      if (legal.length === 0) break;
+      g = play(g, legal[Math.floor(rng() * legal.length)]);
+      expect(stateProblems(g)).toEqual([]);
+    }
+  });
+
+  const fresh = () => cloneState(initializeGame(9, DEFAULT_RULES));
+
+  it("names a duplicated card and the one it replaced", () => {
+    const g = fresh();
+    const lost = g.stock[0];
+    g.stock[0] = { ...g.stock[1] };
+    const name = `${g.stock[1].rank} of ${g.stock[1].suit.toLowerCase()}`;
+    expect(stateProblems(g).sort()).toEqual(
+      [
+        `the ${name} is there 2 times, not 1`,
+        `the ${lost.rank} of ${lost.suit.toLowerCase()} is missing`,
+      ].sort()
+    );
+  });
+
+  it("notices a face-up stock card", () => {
+    const g = fresh();
+    g.stock[0] = { ...g.stock[0], isFaceUp: true };
+    expect(stateProblems(g)).toEqual(["a stock card is face up"]);
+  });
+
+  it("notices a face-down card over a face-up one", () => {
+    const g = fresh();
+    const col = g.tableau[1].cards;
+    col.push({ ...g.stock.pop()!, isFaceUp: false });
+    expect(stateProblems(g)).toEqual([
+      "tableau 2 has a face-down card on top of a face-up one",
+    ]);
+  });
+
+  it("notices a foundation out of order", () => {
+    const g = board("klondike", { foundation: ["AS 3S"] });
+    expect(stateProblems(g)).toContain("foundation 1 is out of order");
+  });
+
+  it("notices a part run on a spider foundation", () => {
+    const g = board("spider1", { foundation: ["KS QS"] });
+    expect(stateProblems(g)).toContain("foundation 1 is out of order");
+  });
+
+  it("notices a crowded free cell", () => {
+    const g = board("freecell", { cells: ["AS 2S"] });
+    expect(stateProblems(g)).toContain("cell 1 holds 2 cards");
+  });
+
+  it("notices missing piles", () => {
+    const g = fresh();
+    g.tableau.pop();
+    expect(stateProblems(g)[0]).toBe("6 tableau columns instead of 7");
+  });
+
+  // a damaged save gets a list of what's wrong, not an exception
+  it.each<[string, (g: any) => void, string]>([
+    [
+      "an inherited key as the variant",
+      (g) => (g.rules = { ...g.rules, variant: "constructor" }),
+      'unknown variant "constructor"',
+    ],
+    [
+      "a draw count the game doesn't have",
+      (g) => (g.rules = { ...g.rules, drawCount: 7 }),
+      "can't draw 7 at a time",
+    ],
+    ["a missing stock", (g) => delete g.stock, "the stock is missing"],
+    ["a card that isn't there", (g) => (g.stock[0] = null), "not a card: null"],
+  ])("reports %s", (_, damage, problem) => {
+    const g = fresh();
+    damage(g);
+    expect(stateProblems(g)).toEqual([problem]);
+  });
+});
+
+describe("findHints", () => {
+  const g = board("klondike", { tableau: ["5C? AH", "KD? QS", "KH"] });
+
+  it("puts a foundation play ahead of turning a card over", () => {
+    const [first, second] = findHints(g);
+    expect(first).toMatchObject({
+      source: "tableau-0",
+      index: 1,
+      target: "foundation-0",
+    });
+    expect(second).toMatchObject({
+      source: "tableau-1",
+      index: 1,
+      target: "tableau-2",
+    });
+  });
+
+  it("offers an ace to only one of the empty foundations", () => {
+    const aces = findHints(g).filter((h) => h.source === "tableau-0");
+    expect(aces).toHaveLength(1);
+  });
+
+  it("ranks moving a king between empty columns last", () => {
+    const hints = findHints(g);
+    expect(hints[hints.length - 1]).toMatchObject({ source: "tableau-2" });
+  });
+});
+
+describe("stuckReason", () => {
+  it("sees when nothing can move", () => {
+    const g = board("klondike", { tableau: ["2S"] });
+    expect(stuckReason(g, [])).toBe("no-moves");
+  });
+
+  it("sees a full trip round the stock that changed nothing", () => {
+    const g = board("klondike", { stock: "2S?" });
+    const drawn = play(g, STOCK);
+    const recycled = play(drawn, STOCK);
+    expect(stuckReason(recycled, [g, drawn])).toBe("cycled");
+  });
+
+  it("isn't fooled by a trip that moved a card", () => {
+    const g = board("klondike", { stock: "2S? 5D?", tableau: ["3H"] });
+    const drawn = play(play(g, STOCK), STOCK);
+    const placed = play(drawn, move("waste", 1, "tableau-0"));
+    const recycled = play(placed, STOCK);
+    expect(stuckReason(recycled, [g, drawn, placed])).toBeNull();
+  });
+});
+
+describe("scoreTransition", () => {
+  const scored = (g: GameState, m: Move) => scoreTransition(g, play(g, m));
+
+  it("pays for a foundation card and the card it turns over", () => {
+    const g = board("klondike", { tableau: ["2C? AH"] });
+    expect(scored(g, move("tableau-0", 1, "foundation-0"))).toBe(15);
+  });
+
+  it("pays for a card from the waste to a column", () => {
+    const g = board("klondike", { waste: "QH", tableau: ["KS"] });
+    expect(scored(g, move("waste", 0, "tableau-0"))).toBe(5);
+  });
+
+  it("takes points back off a foundation, but not below zero", () => {
+    const g = board("klondike", {
+      foundation: ["AS 2S 3S 4S 5S 6S 7S 8S 9S 10S JS QS"],
+      tableau: ["KH"],
+    });
+    const back = move("foundation-0", 11, "tableau-0");
+    expect(scored({ ...g, score: 40 }, back)).toBe(25);
+    expect(scored(g, back)).toBe(0);
+  });
+
+  it("charges less for recycling when drawing three", () => {
+    const one = board("klondike", { waste: "AS" });
+    const three = board("klondike", { waste: "AS" }, { drawCount: 3 });
+    one.score = three.score = 150;
+    expect(scored(one, STOCK)).toBe(50);
+    expect(scored(three, STOCK)).toBe(130);
+  });
+
+  it("pays five dollars a card in vegas", () => {
+    const g = board("klondike", { tableau: ["AH"] }, { scoring: "vegas" });
+    g.score = -52;
+    expect(scored(g, move("tableau-0", 0, "foundation-0"))).toBe(-47);
+  });
+});
+
+describe("safe cards", () => {
+  const fiveOfHearts = cards("5H")[0];
+
+  it("counts aces and twos as always safe", () => {
+    const g = board("klondike", {});
+    expect(isSafeToFoundation(g, cards("AH")[0])).toBe(true);
+    expect(isSafeToFoundation(g, cards("2S")[0])).toBe(true);
+  });
+
+  it("waits for both black fours before a red five", () => {
+    const clubs = board("klondike", { foundation: ["AC 2C 3C 4C"] });
+    expect(isSafeToFoundation(clubs, fiveOfHearts)).toBe(false);
+    const both = board("klondike", {
+      foundation: ["AC 2C 3C 4C", "AS 2S 3S 4S"],
+    });
+    expect(isSafeToFoundation(both, fiveOfHearts)).toBe(true);
+  });
+
+  it("finds the next safe card from wherever it shows", () => {
+    const g = board("klondike", {
+      waste: "2S",
+      foundation: ["AS", "AH 2H 3H 4H"],
+      tableau: ["5H"],
+    });
+    expect(nextSafeMove(g)).toEqual(move("waste", 0, "foundation-0"));
+    const unsafe = board("klondike", {
+      foundation: ["AH 2H 3H 4H"],
+      tableau: ["5H"],
+    });
+    expect(nextSafeMove(unsafe)).toBeNull();
+  });
+});
+
+describe("clickMoveFor", () => {
+  it("sends a card up before trying the columns, safe or not", () => {
+    const g = board("klondike", {
+      foundation: ["AH 2H 3H 4H", "AC 2C 3C"],
+      tableau: ["5H", "6S"],
+    });
+    expect(clickMoveFor(g, "tableau-0", 0)).toEqual(
+      move("tableau-0", 0, "foundation-0")
+    );
+  });
+
+  it("picks the column that buries fewer face-down cards", () => {
+    const g = board("klondike", { tableau: ["9D", "KC? QC? 10S", "10C"] });
+    expect(clickMoveFor(g, "tableau-0", 0)).toEqual(
+      move("tableau-0", 0, "tableau-2")
+    );
+  });
+});
@@ -0,0 +1,885 @@
+// rules and state for klondike and the other solitaire variants, shared by
+// the app and solver
+
+export type Suit = "HEARTS" | "DIAMONDS" | "CLUBS" | "SPADES";
+export type Rank =
+  | "A"
+  | "2"
+  | "3"
+  | "4"
+  | "5"
+  | "6"
+  | "7"
+  | "8"
+  | "9"
+  | "10"
+  | "J"
+  | "Q"
+  | "K";
+
+export interface CardType {
+  suit: Suit;
+  rank: Rank;
+  isFaceUp: boolean;
+}
+
+export interface FoundationPile {
+  cards: CardType[];
+}
+export interface TableauPile {
+  cards: CardType[];
+}
+// freecell's holding spots, one card each
+export interface CellPile {
+  cards: CardType[];
+}
+
+export type ScoringMode = "standard" | "vegas";
+
+export type VariantId =
+  | "klondike"
+  | "freecell"
+  | "spider1"
+  | "spider2"
+  | "spider4"
+  | "yukon";
+
+export interface Rules {
+  variant: VariantId;
+  // draws and passes only mean anything in klondike
+  drawCount: 1 | 3;
+  // total trips through the stock, null for unlimited
+  passLimit: number | null;
+  scoring: ScoringMode;
+}
+
+export interface GameState {
+  stock: CardType[];
+  waste: CardType[];
+  foundation: FoundationPile[];
+  cells: CellPile[];
+  tableau: TableauPile[];
+  rules: Rules;
+  recycles: number;
+  // points in standard scoring, dollars in vegas
+  score: number;
+  moves: number;
+}
+
+export const SUITS: Suit[] = ["HEARTS", "DIAMONDS", "CLUBS", "SPADES"];
+export const RANKS: Rank[] = [
+  "A",
+  "2",
+  "3",
+  "4",
+  "5",
+  "6",
+  "7",
+  "8",
+  "9",
+  "10",
+  "J",
+  "Q",
+  "K",
+];
+
+export const DEFAULT_RULES: Rules = {
+  variant: "klondike",
+  drawCount: 1,
+  passLimit: null,
+  scoring: "standard",
+};
+export const VEGAS_DECK_COST = 52;
+
+export const createDeck = (): CardType[] => {
+  const deck: CardType[] = [];
+  SUITS.forEach((s) =>
+    RANKS.forEach((r) => deck.push({ suit: s, rank: r, isFaceUp: false }))
+  );
+  return deck;
+};
+
+// mulberry32: small, fast and good enough to make every seed its own deal
+export const createRng = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// the daily deal: a date like "2024-05-01" hashed (fnv-1a) to a seed, so
+// everyone playing on that date gets the same shuffle
+export const dailySeed = (date: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < date.length; i++)
+    h = Math.imul(h ^ date.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+};
+
+export const shuffleDeck = (
+  deck: CardType[],
+  rng: () => number
+): CardType[] => {
+  const arr = [...deck];
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+};
+export const canRecycle = (game: GameState) =>
+  game.rules.passLimit === null || game.recycles < game.rules.passLimit - 1;
+
+// turns over the card exposed by a move without touching the old state's card
+export const revealTop = (col: CardType[]) => {
+  if (col.length && !col[col.length - 1].isFaceUp)
+    col[col.length - 1] = { ...col[col.length - 1], isFaceUp: true };
+};
+
+export const canMoveToFoundation = (card: CardType, pile: CardType[]) => {
+  if (pile.length === 0) return card.rank === "A";
+  const top = pile[pile.length - 1];
+  return (
+    card.suit === top.suit &&
+    RANKS.indexOf(card.rank) === RANKS.indexOf(top.rank) + 1
+  );
+};
+export const canMoveToTableau = (card: CardType, pile: CardType[]) => {
+  if (pile.length === 0) return card.rank === "K";
+  const top = pile[pile.length - 1];
+  const red = card.suit === "HEARTS" || card.suit === "DIAMONDS";
+  const topRed = top.suit === "HEARTS" || top.suit === "DIAMONDS";
+  return (
+    red !== topRed && RANKS.indexOf(card.rank) === RANKS.indexOf(top.rank) - 1
+  );
+};
+
+const rankOf = (c: CardType) => RANKS.indexOf(c.rank);
+const isRed = (c: CardType) => c.suit === "HEARTS" || c.suit === "DIAMONDS";
+
+// each card sits one rank below the card under it, fits() says what else
+// the pair must share
+const isRun = (
+  cards: CardType[],
+  fits: (under: CardType, over: CardType) => boolean
+) =>
+  cards.every(
+    (c, i) =>
+      i === 0 ||
+      (rankOf(cards[i - 1]) === rankOf(c) + 1 && fits(cards[i - 1], c))
+  );
+
+const emptyPiles = (n: number) =>
+  Array.from({ length: n }, () => ({ cards: [] as CardType[] }));
+
+// klondike's triangle: row by row, the first card of each row face up
+const dealTriangle = (deck: CardType[]) => {
+  const tableau: TableauPile[] = emptyPiles(7);
+  for (let i = 0; i < 7; i++) {
+    for (let j = i; j < 7; j++) {
+      const c = deck.pop()!;
+      tableau[j].cards.push({ ...c, isFaceUp: j === i });
+    }
+  }
+  return tableau;
+};
+
+// two decks' worth of cards in as many suits as asked for
+const spiderDeck = (suits: number) => {
+  const deck: CardType[] = [];
+  for (let copy = 0; copy < 8 / suits; copy++)
+    SUITS.slice(0, suits).forEach((s) =>
+      RANKS.forEach((r) => deck.push({ suit: s, rank: r, isFaceUp: false }))
+    );
+  return deck;
+};
+
+// how many cards freecell lets move at once: one per free cell plus the one
+// in hand, doubled for every empty column that isn't the destination
+const freeCellCapacity = (g: GameState, target: string) => {
+  const cells = g.cells.filter((c) => c.cards.length === 0).length;
+  const columns = g.tableau.filter(
+    (t, i) => t.cards.length === 0 && `tableau-${i}` !== target
+  ).length;
+  return (cells + 1) * 2 ** columns;
+};
+
+export interface Variant {
+  name: string;
+  // what the stock does: turn cards onto the waste or put one on every
+  // column, null when everything is dealt at the start
+  stock: "waste" | "deal" | null;
+  foundations: number;
+  cells: number;
+  deal: (rng: () => number) => { stock: CardType[]; tableau: TableauPile[] };
+  canMoveToTableau: (card: CardType, pile: CardType[]) => boolean;
+  // whether the card at index and everything on it may move to target
+  canLift: (
+    g: GameState,
+    col: CardType[],
+    index: number,
+    target: string
+  ) => boolean;
+  // spider foundations take whole king-to-ace runs, and take them by themselves
+  collectsRuns: boolean;
+}
+
+const spider = (suits: number): Variant => ({
+  name: `Spider (${suits} suit${suits > 1 ? "s" : ""})`,
+  stock: "deal",
+  foundations: 8,
+  cells: 0,
+  deal: (rng) => {
+    const deck = shuffleDeck(spiderDeck(suits), rng);
+    const tableau: TableauPile[] = emptyPiles(10);
+    for (let i = 0; i < 54; i++) tableau[i % 10].cards.push(deck.pop()!);
+    tableau.forEach((t) => revealTop(t.cards));
+    return { stock: deck, tableau };
+  },
+  canMoveToTableau: (card, pile) =>
+    pile.length === 0 || rankOf(pile[pile.length - 1]) === rankOf(card) + 1,
+  canLift: (g, col, index) =>
+    isRun(col.slice(index), (under, over) => under.suit === over.suit),
+  collectsRuns: true,
+});
+
+export const VARIANTS: Record<VariantId, Variant> = {
+  klondike: {
+    name: "Klondike",
+    stock: "waste",
+    foundations: 4,
+    cells: 0,
+    deal: (rng) => {
+      const stock = shuffleDeck(createDeck(), rng);
+      return { tableau: dealTriangle(stock), stock };
+    },
+    canMoveToTableau,
+    // face-up cards in klondike are always already in sequence
+    canLift: () => true,
+    collectsRuns: false,
+  },
+  freecell: {
+    name: "FreeCell",
+    stock: null,
+    foundations: 4,
+    cells: 4,
+    deal: (rng) => {
+      const tableau: TableauPile[] = emptyPiles(8);
+      shuffleDeck(createDeck(), rng).forEach((c, i) =>
+        tableau[i % 8].cards.push({ ...c, isFaceUp: true })
+      );
+      return { stock: [], tableau };
+    },
+    canMoveToTableau: (card, pile) =>
+      pile.length === 0 || canMoveToTableau(card, pile),
+    canLift: (g, col, index, target) =>
+      isRun(col.slice(index), (under, over) => isRed(under) !== isRed(over)) &&
+      col.length - index <= freeCellCapacity(g, target),
+    collectsRuns: false,
+  },
+  spider1: spider(1),
+  spider2: spider(2),
+  spider4: spider(4),
+  yukon: {
+    name: "Yukon",
+    stock: null,
+    foundations: 4,
+    cells: 0,
+    // klondike's triangle with the rest of the deck face up on columns 2 to 7
+    deal: (rng) => {
+      const deck = shuffleDeck(createDeck(), rng);
+      const tableau = dealTriangle(deck);
+      for (let i = 0; deck.length; i++)
+        tableau[1 + (i % 6)].cards.push({ ...deck.pop()!, isFaceUp: true });
+      return { stock: [], tableau };
+    },
+    canMoveToTableau,
+    // any face-up card moves, whatever is on top of it
+    canLift: () => true,
+    collectsRuns: false,
+  },
+};
+
+// an own key only, so "constructor" or "toString" from a file isn't a variant
+export const isVariantId = (id: unknown): id is VariantId =>
+  typeof id === "string" && Object.prototype.hasOwnProperty.call(VARIANTS, id);
+
+// everything wrong with rules read back from a file, empty when sound
+export const rulesProblems = (r: any): string[] => {
+  if (!r || typeof r !== "object") return ["the rules are missing"];
+  const problems: string[] = [];
+  if (!isVariantId(r.variant))
+    problems.push(`unknown variant ${JSON.stringify(r.variant)}`);
+  if (r.drawCount !== 1 && r.drawCount !== 3)
+    problems.push(`can't draw ${JSON.stringify(r.drawCount)} at a time`);
+  if (
+    r.passLimit !== null &&
+    !(Number.isInteger(r.passLimit) && r.passLimit >= 1)
+  )
+    problems.push(`${JSON.stringify(r.passLimit)} isn't a pass limit`);
+  if (r.scoring !== "standard" && r.scoring !== "vegas")
+    problems.push(`unknown scoring ${JSON.stringify(r.scoring)}`);
+  return problems;
+};
+
+export const initializeGame = (seed: number, rules: Rules): GameState => {
+  const variant = VARIANTS[rules.variant];
+  const { stock, tableau } = variant.deal(createRng(seed));
+  return {
+    stock,
+    waste: [],
+    foundation: emptyPiles(variant.foundations),
+    cells: emptyPiles(variant.cells),
+    tableau,
+    rules,
+    recycles: 0,
+    score: rules.scoring === "vegas" ? -VEGAS_DECK_COST : 0,
+    moves: 0,
+  };
+};
+
+// piles are addressed by the same ids the board uses, e.g. "tableau-3"
+export const pileOf = (g: GameState, id: string): CardType[] => {
+  const [type, idx] = id.split("-");
+  if (type === "waste") return g.waste;
+  if (type === "stock") return g.stock;
+  if (type === "foundation") return g.foundation[+idx].cards;
+  if (type === "cell") return g.cells[+idx].cards;
+  return g.tableau[+idx].cards;
+};
+export const pileName = (id: string) => {
+  const [type, idx] = id.split("-");
+  return idx === undefined ? type : `${type} ${+idx + 1}`;
+};
+export const cardName = (c: CardType) => `${c.rank} of ${c.suit.toLowerCase()}`;
+
+// "stock" turns cards over from the stock, or recycles the waste once it's
+// empty; "move" takes the card at index and everything on top of it
+export type Move =
+  | { type: "stock" }
+  | { type: "move"; source: string; index: number; target: string };
+
+export type MoveResult =
+  | { ok: true; state: GameState }
+  | { ok: false; error: string };
+
+export const cloneState = (g: GameState): GameState => ({
+  ...g,
+  stock: [...g.stock],
+  waste: [...g.waste],
+  foundation: g.foundation.map((f) => ({ cards: [...f.cards] })),
+  cells: g.cells.map((c) => ({ cards: [...c.cards] })),
+  tableau: g.tableau.map((t) => ({ cards: [...t.cards] })),
+});
+
+const isPileId = (g: GameState, id: string) => {
+  const [type, idx] = id.split("-");
+  if (type === "waste" || type === "stock") return idx === undefined;
+  const count =
+    type === "foundation"
+      ? g.foundation.length
+      : type === "tableau"
+      ? g.tableau.length
+      : type === "cell"
+      ? g.cells.length
+      : 0;
+  return Number.isInteger(+idx) && +idx >= 0 && +idx < count;
+};
+
+// why the move can't be made, or null when it can
+export const moveError = (g: GameState, m: Move): string | null => {
+  const variant = VARIANTS[g.rules.variant];
+  if (m.type === "stock") {
+    if (!variant.stock) return `${variant.name} has no stock`;
+    if (variant.stock === "deal") {
+      if (!g.stock.length) return "the stock is empty";
+      return g.tableau.some((t) => t.cards.length === 0)
+        ? "every column needs a card before dealing"
+        : null;
+    }
+    if (g.stock.length) return null;
+    if (!g.waste.length) return "the stock and waste are both empty";
+    return canRecycle(g) ? null : "no passes through the stock are left";
+  }
+  if (!isPileId(g, m.source)) return `no pile called "${m.source}"`;
+  if (!isPileId(g, m.target)) return `no pile called "${m.target}"`;
+  if (m.source === "stock") return "cards can't be taken from the stock";
+  if (m.target === "stock" || m.target === "waste")
+    return `cards can't be put on the ${m.target}`;
+  if (m.source === m.target) return "a card can't move onto its own pile";
+  if (m.source.startsWith("foundation") && m.target.startsWith("foundation"))
+    return "cards can't move between foundations";
+  if (
+    variant.collectsRuns &&
+    (m.source.startsWith("foundation") || m.target.startsWith("foundation"))
+  )
+    return "finished runs go to the foundations by themselves";
+  const src = pileOf(g, m.source);
+  const card = src[m.index];
+  if (!card) return `${pileName(m.source)} has no card ${m.index}`;
+  if (!card.isFaceUp) return `${cardName(card)} is face down`;
+  const top = m.index === src.length - 1;
+  if (!top && !m.source.startsWith("tableau"))
+    return `only the top card of the ${pileName(m.source)} can move`;
+  const dest = pileOf(g, m.target);
+  if (m.target.startsWith("foundation")) {
+    if (!top) return "only one card at a time goes to a foundation";
+    if (!canMoveToFoundation(card, dest))
+      return `${cardName(card)} doesn't go on ${pileName(m.target)}`;
+  } else if (m.target.startsWith("cell")) {
+    if (!top) return "a cell holds a single card";
+    if (dest.length) return `${pileName(m.target)} is taken`;
+  } else {
+    if (!variant.canMoveToTableau(card, dest))
+      return `${cardName(card)} doesn't go on ${pileName(m.target)}`;
+    if (!variant.canLift(g, src, m.index, m.target))
+      return `${cardName(card)} can't be moved with the cards on it`;
+  }
+  return null;
+};
+
+// spider clears a finished king-to-ace run off the column it was built on
+const collectRuns = (ng: GameState) =>
+  ng.tableau.forEach((t) => {
+    const run = t.cards.slice(-RANKS.length);
+    if (
+      run.length < RANKS.length ||
+      run[0].rank !== "K" ||
+      !run[0].isFaceUp ||
+      !isRun(run, (under, over) => under.suit === over.suit)
+    )
+      return;
+    const f = ng.foundation.find((p) => p.cards.length === 0)!;
+    f.cards.push(...t.cards.splice(-RANKS.length));
+    revealTop(t.cards);
+  });
+
+// only ever called on a fresh clone, with a move that passed moveError
+const perform = (ng: GameState, m: Move) => {
+  const variant = VARIANTS[ng.rules.variant];
+  if (m.type === "stock" && variant.stock === "deal") {
+    ng.tableau.forEach((t) =>
+      t.cards.push({ ...ng.stock.pop()!, isFaceUp: true })
+    );
+  } else if (m.type === "stock") {
+    if (ng.stock.length === 0) {
+      ng.stock = ng.waste.reverse().map((c) => ({ ...c, isFaceUp: false }));
+      ng.waste = [];
+      ng.recycles++;
+    } else {
+      for (let i = 0; i < ng.rules.drawCount && ng.stock.length; i++)
+        ng.waste.push({ ...ng.stock.pop()!, isFaceUp: true });
+    }
+  } else {
+    const src = pileOf(ng, m.source);
+    const moving = src.splice(m.index);
+    if (m.source.startsWith("tableau")) revealTop(src);
+    pileOf(ng, m.target).push(...moving);
+  }
+  if (variant.collectsRuns) collectRuns(ng);
+};
+
+// plays the moves in order on a copy, stopping at the first illegal one.
+// score and move count are left alone, they belong to whoever is playing
+export const applyMoves = (g: GameState, moves: Move[]): MoveResult => {
+  const ng = cloneState(g);
+  for (const m of moves) {
+    const error = moveError(ng, m);
+    if (error) return { ok: false, error };
+    perform(ng, m);
+  }
+  return { ok: true, state: ng };
+};
+export const applyMove = (g: GameState, m: Move) => applyMoves(g, [m]);
+
+// every move applyMove accepts: foundation targets for a card come before
+// tableau ones, then free cells, and the stock comes last
+export const legalMoves = (g: GameState): Move[] => {
+  const moves: Move[] = [];
+  const cells = g.cells.map((_, i) => `cell-${i}`);
+  const sources = [
+    "waste",
+    ...g.tableau.map((_, i) => `tableau-${i}`),
+    ...cells,
+    ...g.foundation.map((_, i) => `foundation-${i}`),
+  ];
+  sources.forEach((source) => {
+    const pile = pileOf(g, source);
+    const top = pile.length - 1;
+    if (top < 0) return;
+    const first = source.startsWith("tableau")
+      ? pile.findIndex((c) => c.isFaceUp)
+      : top;
+    for (let index = first; index <= top; index++) {
+      const targets = [
+        ...g.foundation.map((_, i) => `foundation-${i}`),
+        ...g.tableau.map((_, i) => `tableau-${i}`),
+        ...cells,
+      ];
+      targets.forEach((target) => {
+        const m: Move = { type: "move", source, index, target };
+        if (!moveError(g, m)) moves.push(m);
+      });
+    }
+  });
+  if (!moveError(g, { type: "stock" })) moves.push({ type: "stock" });
+  return moves;
+};
+
+const isCardLike = (c: any) =>
+  !!c && typeof c === "object" && typeof c.isFaceUp === "boolean";
+const isPileList = (piles: any) =>
+  Array.isArray(piles) && piles.every((p) => Array.isArray(p?.cards));
+
+const shapeProblems = (g: any): string[] => {
+  const problems: string[] = [];
+  (["stock", "waste"] as const).forEach((k) => {
+    if (!Array.isArray(g[k])) problems.push(`the ${k} is missing`);
+  });
+  (["foundation", "cells", "tableau"] as const).forEach((k) => {
+    if (!isPileList(g[k])) problems.push(`the ${k} piles are missing`);
+  });
+  (["recycles", "score", "moves"] as const).forEach((k) => {
+    if (!Number.isFinite(g[k])) problems.push(`${k} isn't a number`);
+  });
+  if (problems.length) return problems;
+  const cards: any[] = [
+    ...g.stock,
+    ...g.waste,
+    ...[...g.foundation, ...g.cells, ...g.tableau].flatMap((p) => p.cards),
+  ];
+  cards.forEach((c) => {
+    if (!isCardLike(c)) problems.push(`not a card: ${JSON.stringify(c)}`);
+  });
+  return problems;
+};
+
+// what a legal game always keeps true. a state breaking any of it came from
+// a bug or a damaged file; the answer lists every problem, empty when sound
+export const stateProblems = (g: GameState): string[] => {
+  if (!g || typeof g !== "object") return ["not a game"];
+  const ruleProblems = rulesProblems(g.rules);
+  if (ruleProblems.length) return ruleProblems;
+  // the checks below walk every pile and card, so those must be there first
+  const shape = shapeProblems(g);
+  if (shape.length) return shape;
+  const variant = VARIANTS[g.rules.variant];
+  const problems: string[] = [];
+  const fresh = variant.deal(createRng(0));
+  const counts: [string, number, number][] = [
+    ["foundations", g.foundation.length, variant.foundations],
+    ["free cells", g.cells.length, variant.cells],
+    ["tableau columns", g.tableau.length, fresh.tableau.length],
+  ];
+  counts.forEach(([name, found, wanted]) => {
+    if (found !== wanted)
+      problems.push(`${found} ${name} instead of ${wanted}`);
+  });
+
+  // the same cards as a fresh deal, each as often: one deck, or spider's two
+  const expected = new Map<string, number>();
+  [...fresh.stock, ...fresh.tableau.flatMap((t) => t.cards)].forEach((c) =>
+    expected.set(cardName(c), (expected.get(cardName(c)) ?? 0) + 1)
+  );
+  const seen = new Map<string, number>();
+  const all = [
+    ...g.stock,
+    ...g.waste,
+    ...[...g.foundation, ...g.cells, ...g.tableau].flatMap((p) => p.cards),
+  ];
+  all.forEach((c) => {
+    if (!SUITS.includes(c?.suit) || !RANKS.includes(c?.rank))
+      problems.push(`not a card: ${JSON.stringify(c)}`);
+    else seen.set(cardName(c), (seen.get(cardName(c)) ?? 0) + 1);
+  });
+  expected.forEach((wanted, key) => {
+    const found = seen.get(key) ?? 0;
+    if (found > wanted)
+      problems.push(`the ${key} is there ${found} times, not ${wanted}`);
+    else if (found < wanted)
+      problems.push(
+        wanted === 1 ? `the ${key} is missing` : `a ${key} is missing`
+      );
+  });
+
+  if (g.stock.some((c) => c.isFaceUp)) problems.push("a stock card is face up");
+  const faceUp: [string, CardType[]][] = [
+    ["waste", g.waste],
+    ...g.foundation.map((f, i): [string, CardType[]] => [
+      `foundation-${i}`,
+      f.cards,
+    ]),
+    ...g.cells.map((c, i): [string, CardType[]] => [`cell-${i}`, c.cards]),
+  ];
+  faceUp.forEach(([id, cards]) => {
+    if (cards.some((c) => !c.isFaceUp))
+      problems.push(`a card on ${pileName(id)} is face down`);
+  });
+  g.cells.forEach((c, i) => {
+    if (c.cards.length > 1)
+      problems.push(`${pileName(`cell-${i}`)} holds ${c.cards.length} cards`);
+  });
+  g.tableau.forEach((t, i) => {
+    const firstUp = t.cards.findIndex((c) => c.isFaceUp);
+    if (
+      t.cards.length &&
+      (firstUp === -1 || t.cards.slice(firstUp).some((c) => !c.isFaceUp))
+    )
+      problems.push(
+        `${pileName(
+          `tableau-${i}`
+        )} has a face-down card on top of a face-up one`
+      );
+  });
+
+  // aces up for most, while spider lays a whole king-to-ace run there
+  g.foundation.forEach((f, i) => {
+    const cards = f.cards;
+    const inOrder = variant.collectsRuns
+      ? cards.length === 0 ||
+        (cards.length === RANKS.length &&
+          cards.every(
+            (c, j) =>
+              c.suit === cards[0].suit && c.rank === RANKS[RANKS.length - 1 - j]
+          ))
+      : cards.every((c, j) => c.suit === cards[0].suit && c.rank === RANKS[j]);
+    if (!inOrder)
+      problems.push(`${pileName(`foundation-${i}`)} is out of order`);
+  });
+  return problems;
+};
+
+export const isWon = (g: GameState) =>
+  g.foundation.every((f) => f.cards.length === RANKS.length);
+
+// with the stock used up and every column face up and going down in rank
+// nothing can block a win; klondike columns always go down once face up
+export const canAutoFinish = (g: GameState) =>
+  !VARIANTS[g.rules.variant].collectsRuns &&
+  g.stock.length === 0 &&
+  g.waste.length === 0 &&
+  [...g.tableau, ...g.cells].some((t) => t.cards.length > 0) &&
+  g.tableau.every(
+    (t) => t.cards.every((c) => c.isFaceUp) && isRun(t.cards, () => true)
+  );
+
+// the lowest card showing always fits a foundation once canAutoFinish holds
+export const nextFinishingMove = (g: GameState) => {
+  const sources = [
+    ...g.tableau.map((_, i) => `tableau-${i}`),
+    ...g.cells.map((_, i) => `cell-${i}`),
+  ];
+  const moves = sources.flatMap((source) => {
+    const pile = pileOf(g, source);
+    const card = pile[pile.length - 1];
+    if (!card) return [];
+    const fi = g.foundation.findIndex((f) =>
+      canMoveToFoundation(card, f.cards)
+    );
+    if (fi === -1) return [];
+    return [
+      {
+        rank: RANKS.indexOf(card.rank),
+        source,
+        index: pile.length - 1,
+        target: `foundation-${fi}`,
+      },
+    ];
+  });
+  return moves.sort((a, b) => a.rank - b.rank)[0] ?? null;
+};
+
+const foundationHeight = (g: GameState, suit: Suit) =>
+  g.foundation.find((f) => f.cards[0]?.suit === suit)?.cards.length ?? 0;
+
+// a card can go up for good once both opposite-colour cards one rank lower
+// are already on the foundations, nothing could ever need to sit on it
+export const isSafeToFoundation = (g: GameState, card: CardType) => {
+  const rank = rankOf(card);
+  const opposite: Suit[] = isRed(card)
+    ? ["CLUBS", "SPADES"]
+    : ["HEARTS", "DIAMONDS"];
+  return rank <= 1 || opposite.every((s) => foundationHeight(g, s) >= rank);
+};
+
+type CardMove = Extract<Move, { type: "move" }>;
+const isCardMove = (m: Move): m is CardMove => m.type === "move";
+
+// the next safe card to send up, from wherever it shows
+export const nextSafeMove = (g: GameState): CardMove | null =>
+  legalMoves(g)
+    .filter(isCardMove)
+    .find(
+      (m) =>
+        m.target.startsWith("foundation") &&
+        isSafeToFoundation(g, pileOf(g, m.source)[m.index])
+    ) ?? null;
+
+export const foundationMoveFor = (
+  g: GameState,
+  source: string,
+  index: number
+): CardMove | null =>
+  legalMoves(g)
+    .filter(isCardMove)
+    .find(
+      (m) =>
+        m.source === source &&
+        m.index === index &&
+        m.target.startsWith("foundation")
+    ) ?? null;
+
+// where a click sends a card: up if a foundation takes it, otherwise onto
+// the column it does most for, building in suit and burying as few
+// face-down cards as it can. a free cell or the empty column a whole stack
+// already fills comes last
+export const clickMoveFor = (
+  g: GameState,
+  source: string,
+  index: number
+): CardMove | null => {
+  const card = pileOf(g, source)[index];
+  const wholeColumn = source.startsWith("tableau") && index === 0;
+  const worth = (m: CardMove) => {
+    if (m.target.startsWith("foundation")) return 1000;
+    if (m.target.startsWith("cell")) return 0;
+    const target = pileOf(g, m.target);
+    const top = target[target.length - 1];
+    if (!top) return wholeColumn ? -1 : 2;
+    const buried = target.filter((c) => !c.isFaceUp).length;
+    return (top.suit === card.suit ? 200 : 100) - buried;
+  };
+  const moves = legalMoves(g)
+    .filter(isCardMove)
+    .filter((m) => m.source === source && m.index === index);
+  // sort is stable, so equal columns still go left to right
+  return moves.sort((a, b) => worth(b) - worth(a))[0] ?? null;
+};
+
+export interface Hint {
+  // "stock" means draw (or recycle), with no target
+  source: string;
+  index: number;
+  target: string;
+  score: number;
+}
+
+// every move the board would accept, best first: foundation plays, then
+// turning over face-down cards, then clearing columns for a king
+export const findHints = (g: GameState): Hint[] => {
+  const hints: Hint[] = [];
+  const faceDownUnder = (col: CardType[], i: number) =>
+    col.slice(0, i).filter((c) => !c.isFaceUp).length;
+
+  legalMoves(g).forEach((m) => {
+    if (m.type === "stock") {
+      hints.push({
+        source: "stock",
+        index: g.stock.length - 1,
+        target: "",
+        score: 1,
+      });
+      return;
+    }
+    const { source, index: i, target } = m;
+    const pile = pileOf(g, source);
+    const fromTableau = source.startsWith("tableau");
+    const fromFoundation = source.startsWith("foundation");
+    let score: number;
+    if (target.startsWith("foundation")) {
+      // every empty foundation takes an ace equally well
+      if (
+        hints.some(
+          (h) => h.source === source && h.target.startsWith("foundation")
+        )
+      )
+        return;
+      score = 100;
+      if (fromTableau && i > 0 && !pile[i - 1].isFaceUp)
+        score += 50 + faceDownUnder(pile, i);
+      else if (fromTableau && i === 0) score += 40;
+    } else if (target.startsWith("cell")) {
+      // and every empty cell holds a card equally well, as a last resort
+      if (hints.some((h) => h.source === source && h.target.startsWith("cell")))
+        return;
+      score = 2;
+    } else if (fromFoundation) score = -20;
+    else if (!fromTableau) score = 30;
+    else if (i > 0 && !pile[i - 1].isFaceUp)
+      score = 80 + faceDownUnder(pile, i);
+    else if (i === 0) score = pileOf(g, target).length === 0 ? -10 : 40;
+    else score = 10;
+    hints.push({ source, index: i, target, score });
+  });
+  return hints.sort((a, b) => b.score - a.score);
+};
+
+export const describeHint = (g: GameState, h: Hint) => {
+  if (h.source === "stock")
+    return VARIANTS[g.rules.variant].stock === "deal"
+      ? "Deal a card onto every column"
+      : g.stock.length
+      ? "Draw from the stock"
+      : "Recycle the waste";
+  const card = pileOf(g, h.source)[h.index];
+  return `${cardName(card)}: ${pileName(h.source)} → ${pileName(h.target)}`;
+};
+
+// "cycled" when the player has gone all the way round the stock since
+// anything else last changed, "no-moves" when nothing can move at all
+export const stuckReason = (g: GameState, history: GameState[]) => {
+  if (isWon(g)) return null;
+  const layout = (s: GameState) => JSON.stringify([s.tableau, s.foundation]);
+  const now = layout(g);
+  for (let i = history.length - 1; i >= 0; i--) {
+    const p = history[i];
+    if (layout(p) !== now) break;
+    if (p.recycles < g.recycles && p.stock.length === g.stock.length)
+      return "cycled";
+  }
+  return legalMoves(g).length === 0 ? "no-moves" : null;
+};
+
+const cardCount = (piles: { cards: CardType[] }[]) =>
+  piles.reduce((n, p) => n + p.cards.length, 0);
+const faceDownCount = (g: GameState) =>
+  g.tableau.reduce((n, t) => n + t.cards.filter((c) => !c.isFaceUp).length, 0);
+
+// works from what changed rather than which handler made the move, windows
+// style: +10 to a foundation, +5 waste to tableau, +5 per card turned over,
+// -15 back off a foundation and -100 (-20 drawing three) per recycle.
+// vegas pays $5 a card on the foundations against the deck's cost
+export const scoreTransition = (prev: GameState, next: GameState) => {
+  const toFoundation = cardCount(next.foundation) - cardCount(prev.foundation);
+  if (prev.rules.scoring === "vegas") return prev.score + toFoundation * 5;
+
+  let delta = toFoundation >= 0 ? toFoundation * 10 : toFoundation * 15;
+  delta += (faceDownCount(prev) - faceDownCount(next)) * 5;
+  if (
+    next.waste.length < prev.waste.length &&
+    cardCount(next.tableau) > cardCount(prev.tableau)
+  )
+    delta += 5;
+  if (next.recycles > prev.recycles)
+    delta -= prev.rules.drawCount === 1 ? 100 : 20;
+  return Math.max(0, prev.score + delta);
+};
+
+// applyMove with what a player's move also counts for: the score it earns
+// and one more on the move count
+export const playMove = (g: GameState, m: Move): MoveResult => {
+  const result = applyMove(g, m);
+  if (!result.ok) return result;
+  return {
+    ok: true,
+    state: {
+      ...result.state,
+      score: scoreTransition(g, result.state),
+      moves: g.moves + 1,
+    },
+  };
+};
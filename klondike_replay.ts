@@ -0,0 +1,160 @@
+// the move log behind replays: every event of a game from its seed, so the
+// whole game can be rebuilt and stepped through, shared and written down
+
+import {
+  GameState,
+  Move,
+  Rules,
+  VARIANTS,
+  initializeGame,
+  pileOf,
+  playMove,
+  rulesProblems,
+  stateProblems,
+} from "./klondike_engine";
+
+export const REPLAY_VERSION = 1;
+
+// at is milliseconds since the deal
+export type GameEvent =
+  | { type: "move"; at: number; move: Move }
+  | { type: "undo"; at: number }
+  | { type: "redo"; at: number };
+
+export interface Replay {
+  version: number;
+  seed: number;
+  rules: Rules;
+  // a carried vegas balance, which the seed alone can't give
+  startScore: number;
+  events: GameEvent[];
+}
+
+export type ReplayResult =
+  | { ok: true; positions: GameState[] }
+  | { ok: false; error: string };
+
+// the board before the first event and after each one
+export const replayPositions = (r: Replay): ReplayResult => {
+  let g: GameState = {
+    ...initializeGame(r.seed, r.rules),
+    score: r.startScore,
+  };
+  const past: GameState[] = [];
+  let future: GameState[] = [];
+  const positions = [g];
+  for (let i = 0; i < r.events.length; i++) {
+    const e = r.events[i];
+    if (e.type === "move") {
+      const result = playMove(g, e.move);
+      if (!result.ok)
+        return { ok: false, error: `event ${i + 1}: ${result.error}` };
+      past.push(g);
+      future = [];
+      g = result.state;
+    } else if (e.type === "undo") {
+      if (past.length === 0)
+        return { ok: false, error: `event ${i + 1}: nothing to undo` };
+      future.unshift(g);
+      g = past.pop()!;
+    } else {
+      if (future.length === 0)
+        return { ok: false, error: `event ${i + 1}: nothing to redo` };
+      past.push(g);
+      g = future.shift()!;
+    }
+    positions.push(g);
+  }
+  return { ok: true, positions };
+};
+
+const PILE_LETTERS: Record<string, string> = {
+  tableau: "T",
+  foundation: "F",
+  cell: "C",
+  waste: "W",
+};
+const pileCode = (id: string) => {
+  const [type, idx] = id.split("-");
+  const letter = PILE_LETTERS[type];
+  return idx === undefined ? letter : `${letter}${+idx + 1}`;
+};
+
+// short notation for one event, given the position it was played from:
+// "T3→F1", "W→T2", "T4→T6 ×3" for a run, "D" to draw or deal, "R" to
+// turn the waste back over
+export const eventNotation = (g: GameState, e: GameEvent) => {
+  if (e.type !== "move") return e.type;
+  const m = e.move;
+  if (m.type === "stock") return g.stock.length ? "D" : "R";
+  const count = pileOf(g, m.source).length - m.index;
+  return `${pileCode(m.source)}→${pileCode(m.target)}${
+    count > 1 ? ` ×${count}` : ""
+  }`;
+};
+
+// the whole game written out one numbered event per line
+export const replayNotation = (r: Replay, positions: GameState[]) => {
+  const { rules } = r;
+  const name =
+    rules.variant === "klondike"
+      ? `Klondike, draw ${rules.drawCount}`
+      : VARIANTS[rules.variant].name;
+  return [
+    `# ${name}, ${rules.scoring} scoring, seed ${r.seed}`,
+    ...r.events.map((e, i) => `${i + 1}. ${eventNotation(positions[i], e)}`),
+  ].join("\n");
+};
+
+const isEvent = (e: any): e is GameEvent =>
+  !!e &&
+  typeof e.at === "number" &&
+  (e.type === "undo" ||
+    e.type === "redo" ||
+    (e.type === "move" &&
+      (e.move?.type === "stock" ||
+        (e.move?.type === "move" &&
+          typeof e.move.source === "string" &&
+          typeof e.move.index === "number" &&
+          typeof e.move.target === "string"))));
+
+// checks a replay read back from a file, down to every move being legal
+export const parseReplay = (
+  text: string
+):
+  | { ok: true; replay: Replay; positions: GameState[] }
+  | { ok: false; error: string } => {
+  let r: any;
+  try {
+    r = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "not a JSON file" };
+  }
+  if (r?.version !== REPLAY_VERSION)
+    return { ok: false, error: "not a replay this version can read" };
+  const ruleProblems = rulesProblems(r.rules);
+  if (ruleProblems.length)
+    return {
+      ok: false,
+      error: `the rules are damaged (${ruleProblems.join("; ")})`,
+    };
+  if (
+    typeof r.seed !== "number" ||
+    typeof r.startScore !== "number" ||
+    !Array.isArray(r.events) ||
+    !r.events.every(isEvent)
+  )
+    return { ok: false, error: "the replay is damaged" };
+  const result = replayPositions(r);
+  if (!result.ok) return result;
+  // the engine built every position, but a bug there shouldn't pass unseen
+  for (let i = 0; i < result.positions.length; i++) {
+    const problems = stateProblems(result.positions[i]);
+    if (problems.length)
+      return {
+        ok: false,
+        error: `${i ? `after event ${i}` : "the deal"}: ${problems.join("; ")}`,
+      };
+  }
+  return { ok: true, replay: r, positions: result.positions };
+};
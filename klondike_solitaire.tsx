@@ -1,156 +1,694 @@
-// App.tsx for a klondike solitaire game
+// App.tsx for klondike solitaire and its variants
 
-import React, { useState, useEffect, useRef } from "react";
+import React, {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useContext,
+} from "react";
 import { DndProvider, useDrag, useDrop, useDragLayer } from "react-dnd";
 import { HTML5Backend, getEmptyImage } from "react-dnd-html5-backend";
+import { TouchBackend } from "react-dnd-touch-backend";
 import {
   BsSuitHeartFill,
   BsSuitDiamondFill,
   BsSuitClubFill,
   BsSuitSpadeFill,
 } from "react-icons/bs";
+import {
+  Suit,
+  CardType,
+  FoundationPile,
+  GameState,
+  Rules,
+  ScoringMode,
+  VariantId,
+  VARIANTS,
+  DEFAULT_RULES,
+  RANKS,
+  dailySeed,
+  initializeGame,
+  canRecycle,
+  Move,
+  MoveResult,
+  moveError,
+  playMove,
+  stateProblems,
+  Hint,
+  findHints,
+  describeHint,
+  canAutoFinish,
+  nextFinishingMove,
+  nextSafeMove,
+  foundationMoveFor,
+  clickMoveFor,
+  pileOf,
+  pileName,
+  cardName,
+  isWon,
+  stuckReason,
+} from "./klondike_engine";
+import {
+  SolveResult,
+  SolveRequest,
+  SolveResponse,
+  describeSolution,
+} from "./klondike_solver";
+import {
+  CardBack,
+  CardBackId,
+  CardSize,
+  CardSizeId,
+  FaceId,
+  FaceStyle,
+  TableId,
+  CARD_BACKS,
+  CARD_SIZES,
+  FACES,
+  MIN_CARD_WIDTH,
+  TABLES,
+  cardSize,
+} from "./klondike_themes";
+import {
+  GameEvent,
+  Replay,
+  REPLAY_VERSION,
+  eventNotation,
+  parseReplay,
+  replayNotation,
+  replayPositions,
+} from "./klondike_replay";
 
-type Suit = "HEARTS" | "DIAMONDS" | "CLUBS" | "SPADES";
-type Rank =
-  | "A"
-  | "2"
-  | "3"
-  | "4"
-  | "5"
-  | "6"
-  | "7"
-  | "8"
-  | "9"
-  | "10"
-  | "J"
-  | "Q"
-  | "K";
-
-interface CardType {
-  suit: Suit;
-  rank: Rank;
-  isFaceUp: boolean;
-}
+const PASS_LIMITS: (number | null)[] = [null, 3, 1];
+const WINNABLE_DEAL_TRIES = 20;
+const WINNABLE_DEAL_NODE_LIMIT = 5000;
 
-interface FoundationPile {
-  cards: CardType[];
+const HINT_PULSE = "hint-pulse 1s ease-in-out infinite";
+const LONG_PRESS_MS = 250;
+
+// anything with a touch screen gets the touch backend: a long press picks a
+// stack up, so a quick swipe still scrolls the page. mouse events stay on
+// for laptops with touch screens, whose clicks are still clicks (see
+// pointerType in App)
+const HAS_TOUCH =
+  typeof window !== "undefined" &&
+  ("ontouchstart" in window || navigator.maxTouchPoints > 0);
+const DND_BACKEND = HAS_TOUCH ? TouchBackend : HTML5Backend;
+const DND_OPTIONS = HAS_TOUCH
+  ? { enableMouseEvents: true, delayTouchStart: LONG_PRESS_MS }
+  : undefined;
+const FOCUS_OUTLINE = "3px solid royalblue";
+const HELD_OUTLINE = "3px solid darkorange";
+
+interface BoardLayout {
+  columns: number;
+  // tableau height in card strips past the first card; longer columns
+  // squeeze their cards closer together
+  rowOffsets: number;
+  // the piles above the tableau and the board column each sits in, which
+  // is also the order the keyboard cursor visits them
+  topRow: [string, number][];
 }
-interface TableauPile {
-  cards: CardType[];
+
+const pilesFrom = (type: string, count: number, column: number) =>
+  Array.from({ length: count }, (_, i): [string, number] => [
+    `${type}-${i}`,
+    column + i,
+  ]);
+
+const SPIDER_LAYOUT: BoardLayout = {
+  columns: 10,
+  rowOffsets: 12,
+  topRow: [["stock", 0], ...pilesFrom("foundation", 8, 2)],
+};
+const LAYOUTS: Record<VariantId, BoardLayout> = {
+  klondike: {
+    columns: 7,
+    rowOffsets: 8,
+    topRow: [["stock", 0], ["waste", 1], ...pilesFrom("foundation", 4, 3)],
+  },
+  freecell: {
+    columns: 8,
+    rowOffsets: 10,
+    topRow: [...pilesFrom("cell", 4, 0), ...pilesFrom("foundation", 4, 4)],
+  },
+  spider1: SPIDER_LAYOUT,
+  spider2: SPIDER_LAYOUT,
+  spider4: SPIDER_LAYOUT,
+  yukon: {
+    columns: 7,
+    rowOffsets: 12,
+    topRow: pilesFrom("foundation", 4, 3),
+  },
+};
+const rowHeight = (l: BoardLayout, size: CardSize) =>
+  size.height + size.offset * l.rowOffsets;
+const boardWidth = (l: BoardLayout, size: CardSize) =>
+  size.width * l.columns + size.gap * (l.columns - 1);
+const boardHeight = (l: BoardLayout, size: CardSize) =>
+  size.height + rowHeight(l, size) + size.gap;
+
+const cardLabel = (c: CardType) =>
+  c.isFaceUp ? `${cardName(c)}, face up` : "face-down card";
+
+// only for screen readers
+const VISUALLY_HIDDEN: React.CSSProperties = {
+  position: "absolute",
+  width: 1,
+  height: 1,
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+};
+const AUTO_FINISH_STEP_MS = 120;
+
+const randomSeed = () => Math.floor(Math.random() * 4294967296);
+const parseSeed = (value: string | null): number | null => {
+  if (value === null || !/^\d+$/.test(value.trim())) return null;
+  const n = Number(value.trim());
+  return n <= 0xffffffff ? n : null;
+};
+const getUrlSeed = () =>
+  parseSeed(new URLSearchParams(window.location.search).get("seed"));
+const setUrlSeed = (seed: number) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set("seed", String(seed));
+  window.history.replaceState(null, "", url);
+};
+
+const SAVE_KEY = "klondike-save";
+const SAVE_VERSION = 2;
+
+interface SavedGame {
+  version: number;
+  seed: number;
+  game: GameState;
+  past: GameState[];
+  future: GameState[];
+  elapsed: number;
+  carryVegas: boolean;
+  // whether this game has already gone into the stats
+  recorded?: boolean;
+  // missing from games started before replays were recorded
+  log?: GameLog;
+  // the date, when this is a daily deal
+  daily?: string;
 }
 
-interface GameState {
-  stock: CardType[];
-  waste: CardType[];
-  foundation: FoundationPile[];
-  tableau: TableauPile[];
+// the events of the game in play, timed from the deal
+interface GameLog {
+  dealtAt: number;
+  startScore: number;
+  events: GameEvent[];
 }
+const newLog = (g: GameState): GameLog => ({
+  dealtAt: Date.now(),
+  startScore: g.score,
+  events: [],
+});
+
+// version 1 saves come from before the variants, so they're all klondike
+const fromVersion1 = (g: GameState): GameState => ({
+  ...g,
+  cells: [],
+  rules: { ...g.rules, variant: "klondike" },
+});
+
+const readSavedGame = (raw: string): SavedGame | null => {
+  const saved = JSON.parse(raw) as SavedGame;
+  if (saved.version === 1)
+    return {
+      ...saved,
+      version: SAVE_VERSION,
+      game: fromVersion1(saved.game),
+      past: saved.past.map(fromVersion1),
+      future: saved.future.map(fromVersion1),
+    };
+  return saved.version === SAVE_VERSION ? saved : null;
+};
+
+// a saved game that breaks the rules isn't played on, but a broken undo
+// history only costs the history; either way the player is told why
+const loadSavedGame = (): {
+  saved: SavedGame | null;
+  problem: string | null;
+} => {
+  try {
+    const raw = localStorage.getItem(SAVE_KEY);
+    const saved = raw && readSavedGame(raw);
+    if (!saved) return { saved: null, problem: null };
+    const problems = stateProblems(saved.game);
+    if (problems.length)
+      return {
+        saved: null,
+        problem: `Your saved game was damaged (${problems.join(
+          "; "
+        )}), so a new one was dealt.`,
+      };
+    const sound = (g: GameState) => stateProblems(g).length === 0;
+    if (saved.past.every(sound) && saved.future.every(sound))
+      return { saved, problem: null };
+    return {
+      saved: { ...saved, past: [], future: [] },
+      problem: "Your saved undo history was damaged and has been cleared.",
+    };
+  } catch {
+    return {
+      saved: null,
+      problem: "Your saved game couldn't be read, so a new one was dealt.",
+    };
+  }
+};
+const storeGame = (saved: SavedGame) => {
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify(saved));
+  } catch {
+    // a long undo history can outgrow the quota, the game itself still fits
+    try {
+      localStorage.setItem(
+        SAVE_KEY,
+        JSON.stringify({ ...saved, past: [], future: [] })
+      );
+    } catch {}
+  }
+};
+
+const STATS_KEY = "klondike-stats";
+const STATS_VERSION = 1;
+const HISTOGRAM_BINS = 8;
+// the histogram only looks at the latest games, so localStorage stays small
+const KEPT_SCORES = 200;
+
+// klondike keeps draw one and draw three apart, the others go by variant
+type StatsMode = "draw1" | "draw3" | Exclude<VariantId, "klondike">;
 
-const SUITS: Suit[] = ["HEARTS", "DIAMONDS", "CLUBS", "SPADES"];
-const RANKS: Rank[] = [
-  "A",
-  "2",
-  "3",
-  "4",
-  "5",
-  "6",
-  "7",
-  "8",
-  "9",
-  "10",
-  "J",
-  "Q",
-  "K",
+const STATS_MODES: [StatsMode, string][] = [
+  ["draw1", "Klondike, draw 1"],
+  ["draw3", "Klondike, draw 3"],
+  ["freecell", VARIANTS.freecell.name],
+  ["spider1", VARIANTS.spider1.name],
+  ["spider2", VARIANTS.spider2.name],
+  ["spider4", VARIANTS.spider4.name],
+  ["yukon", VARIANTS.yukon.name],
 ];
+const statsMode = (rules: Rules): StatsMode =>
+  rules.variant !== "klondike"
+    ? rules.variant
+    : rules.drawCount === 1
+    ? "draw1"
+    : "draw3";
 
-const CARD_WIDTH = 100;
-const CARD_HEIGHT = CARD_WIDTH * 1.4;
-const CARD_OFFSET = 25;
-const ROW_HEIGHT = CARD_HEIGHT + CARD_OFFSET * 8;
-const GAP = 10;
-const BOARD_WIDTH = CARD_WIDTH * 7 + GAP * 6;
-const BOARD_HEIGHT = CARD_HEIGHT + ROW_HEIGHT + GAP;
-
-const createDeck = (): CardType[] => {
-  const deck: CardType[] = [];
-  SUITS.forEach((s) =>
-    RANKS.forEach((r) => deck.push({ suit: s, rank: r, isFaceUp: false }))
-  );
-  return deck;
+interface ModeStats {
+  played: number;
+  won: number;
+  currentStreak: number;
+  bestStreak: number;
+  fastestWin: number | null;
+  fewestMoves: number | null;
+  // final scores of the latest games, split because points and dollars
+  // don't mix
+  scores: Record<ScoringMode, number[]>;
+}
+
+interface StatsFile {
+  version: number;
+  modes: Record<StatsMode, ModeStats>;
+}
+
+const emptyModeStats = (): ModeStats => ({
+  played: 0,
+  won: 0,
+  currentStreak: 0,
+  bestStreak: 0,
+  fastestWin: null,
+  fewestMoves: null,
+  scores: { standard: [], vegas: [] },
+});
+const emptyStats = (): StatsFile => ({
+  version: STATS_VERSION,
+  modes: Object.fromEntries(
+    STATS_MODES.map(([mode]) => [mode, emptyModeStats()])
+  ) as Record<StatsMode, ModeStats>,
+});
+
+// there is only one version so far, so a file from any other can't be
+// read. it's left alone rather than thrown away, and nothing is saved over it
+const foreignStats = () => {
+  try {
+    const raw = localStorage.getItem(STATS_KEY);
+    return !!raw && JSON.parse(raw).version !== STATS_VERSION;
+  } catch {
+    return false;
+  }
 };
-const shuffleDeck = (deck: CardType[]): CardType[] => {
-  const arr = [...deck];
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
+const loadStats = (): StatsFile => {
+  try {
+    const raw = localStorage.getItem(STATS_KEY);
+    if (!raw) return emptyStats();
+    const stats = JSON.parse(raw) as StatsFile;
+    if (stats.version !== STATS_VERSION) return emptyStats();
+    // modes added since the file was written start out empty
+    return { ...stats, modes: { ...emptyStats().modes, ...stats.modes } };
+  } catch {
+    return emptyStats();
   }
-  return arr;
 };
-const initializeGame = (): GameState => {
-  const deck = shuffleDeck(createDeck());
-  const tableau: TableauPile[] = Array.from({ length: 7 }, () => ({
-    cards: [],
-  }));
-  for (let i = 0; i < 7; i++) {
-    for (let j = i; j < 7; j++) {
-      const c = deck.pop()!;
-      tableau[j].cards.push({ ...c, isFaceUp: j === i });
-    }
+const storeStats = (stats: StatsFile) => {
+  if (foreignStats()) return;
+  try {
+    localStorage.setItem(STATS_KEY, JSON.stringify(stats));
+  } catch {}
+};
+
+const recordResult = (
+  stats: StatsFile,
+  game: GameState,
+  elapsed: number
+): StatsFile => {
+  const mode = statsMode(game.rules);
+  const m = stats.modes[mode];
+  const won = isWon(game);
+  const streak = won ? m.currentStreak + 1 : 0;
+  const best = (prev: number | null, v: number) =>
+    !won ? prev : prev === null ? v : Math.min(prev, v);
+  return {
+    ...stats,
+    modes: {
+      ...stats.modes,
+      [mode]: {
+        played: m.played + 1,
+        won: m.won + (won ? 1 : 0),
+        currentStreak: streak,
+        bestStreak: Math.max(m.bestStreak, streak),
+        fastestWin: best(m.fastestWin, elapsed),
+        fewestMoves: best(m.fewestMoves, game.moves),
+        scores: {
+          ...m.scores,
+          [game.rules.scoring]: [
+            ...m.scores[game.rules.scoring],
+            game.score,
+          ].slice(-KEPT_SCORES),
+        },
+      },
+    },
+  };
+};
+
+const histogram = (scores: number[]) => {
+  if (scores.length === 0) return [];
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const width = Math.max(1, Math.ceil((max - min + 1) / HISTOGRAM_BINS));
+  const bins = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width - 1,
+    count: 0,
+  })).filter((b) => b.from <= max);
+  scores.forEach((v) => bins[Math.floor((v - min) / width)].count++);
+  return bins;
+};
+
+const DAILY_KEY = "klondike-daily";
+const DAILY_VERSION = 1;
+
+// local calendar date, so the daily deal turns over at the player's midnight
+const dateKey = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
+    d.getDate()
+  ).padStart(2, "0")}`;
+const formatDate = (date: string) =>
+  new Date(`${date}T12:00`).toLocaleDateString(undefined, {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+// best time and fewest moves may come from different wins of the same day
+interface DailyResult {
+  fastestWin: number;
+  fewestMoves: number;
+}
+interface DailyFile {
+  version: number;
+  days: Record<string, DailyResult>;
+}
+
+const loadDaily = (): DailyFile => {
+  try {
+    const raw = localStorage.getItem(DAILY_KEY);
+    const daily = raw && (JSON.parse(raw) as DailyFile);
+    return daily && daily.version === DAILY_VERSION
+      ? daily
+      : { version: DAILY_VERSION, days: {} };
+  } catch {
+    return { version: DAILY_VERSION, days: {} };
   }
+};
+const storeDaily = (daily: DailyFile) => {
+  try {
+    localStorage.setItem(DAILY_KEY, JSON.stringify(daily));
+  } catch {}
+};
+
+const recordDaily = (
+  daily: DailyFile,
+  date: string,
+  elapsed: number,
+  moves: number
+): DailyFile => {
+  const prev = daily.days[date];
   return {
-    stock: deck,
-    waste: [],
-    foundation: Array.from({ length: 4 }, () => ({ cards: [] })),
-    tableau,
+    ...daily,
+    days: {
+      ...daily.days,
+      [date]: {
+        fastestWin: Math.min(prev?.fastestWin ?? elapsed, elapsed),
+        fewestMoves: Math.min(prev?.fewestMoves ?? moves, moves),
+      },
+    },
   };
 };
 
-const canMoveToFoundation = (card: CardType, pile: CardType[]) => {
-  if (pile.length === 0) return card.rank === "A";
-  const top = pile[pile.length - 1];
-  return (
-    card.suit === top.suit &&
-    RANKS.indexOf(card.rank) === RANKS.indexOf(top.rank) + 1
+type AnimationSpeed = "off" | "slow" | "normal" | "fast";
+const ANIMATION_MS: Record<AnimationSpeed, number> = {
+  off: 0,
+  slow: 450,
+  normal: 250,
+  fast: 120,
+};
+
+const PREFS_KEY = "klondike-prefs";
+
+interface Prefs {
+  animation: AnimationSpeed;
+  back: CardBackId;
+  face: FaceId;
+  table: TableId;
+  cardSize: CardSizeId;
+}
+
+// anyone who has asked their system for less motion starts with it off
+const defaultPrefs = (): Prefs => ({
+  animation: window.matchMedia?.("(prefers-reduced-motion: reduce)").matches
+    ? "off"
+    : "normal",
+  back: "navy",
+  face: "classic",
+  table: "white",
+  cardSize: "medium",
+});
+// settings added later fall back to their defaults
+const loadPrefs = (): Prefs => {
+  try {
+    const raw = localStorage.getItem(PREFS_KEY);
+    return { ...defaultPrefs(), ...(raw ? JSON.parse(raw) : {}) };
+  } catch {
+    return defaultPrefs();
+  }
+};
+const storePrefs = (prefs: Prefs) => {
+  try {
+    localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+  } catch {}
+};
+
+interface CardSpot {
+  key: string;
+  x: number;
+  y: number;
+  faceUp: boolean;
+}
+
+// where every card on the board sits, relative to the board so scrolling
+// between two measurements doesn't count as a move
+const measureCards = (board: HTMLElement) => {
+  const origin = board.getBoundingClientRect();
+  return Array.from(board.querySelectorAll<HTMLElement>("[data-card]")).map(
+    (el) => {
+      el.getAnimations().forEach((a) => a.cancel());
+      const r = el.getBoundingClientRect();
+      return {
+        el,
+        key: el.dataset.card!,
+        x: r.left - origin.left,
+        y: r.top - origin.top,
+        faceUp: el.dataset.faceUp === "true",
+      };
+    }
   );
 };
-const canMoveToTableau = (card: CardType, pile: CardType[]) => {
-  if (pile.length === 0) return card.rank === "K";
-  const top = pile[pile.length - 1];
-  const red = card.suit === "HEARTS" || card.suit === "DIAMONDS";
-  const topRed = top.suit === "HEARTS" || top.suit === "DIAMONDS";
-  return (
-    red !== topRed && RANKS.indexOf(card.rank) === RANKS.indexOf(top.rank) - 1
+
+// spider deals eight of a card, so a card that didn't move is matched to
+// the copy in its own place before the rest are paired up in order
+const matchSpots = (before: CardSpot[], after: CardSpot[]) => {
+  const unmatched = [...before];
+  const take = (i: number) => unmatched.splice(i, 1)[0];
+  const stayed = after.map((a) => {
+    const i = unmatched.findIndex(
+      (b) => b.key === a.key && b.x === a.x && b.y === a.y
+    );
+    return i === -1 ? null : take(i);
+  });
+  return after.map((a, n) => {
+    if (stayed[n]) return stayed[n];
+    const i = unmatched.findIndex((b) => b.key === a.key);
+    return i === -1 ? null : take(i);
+  });
+};
+
+const slide = (
+  el: HTMLElement,
+  dx: number,
+  dy: number,
+  ms: number,
+  delay = 0
+) =>
+  el.animate(
+    [
+      { transform: `translate(${dx}px, ${dy}px)`, zIndex: 50 },
+      { transform: "none", zIndex: 50 },
+    ],
+    { duration: ms, delay, easing: "ease-out", fill: "backwards" }
   );
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+const formatScore = (game: GameState) =>
+  game.rules.scoring === "vegas"
+    ? `${game.score < 0 ? "-" : ""}$${Math.abs(game.score)}`
+    : String(game.score);
+
+// the worker only starts on first use; answers come back matched by id.
+// stopping it, or a crash, fails whatever was still waiting on it
+const createSolver = () => {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<
+    number,
+    { resolve: (r: SolveResult) => void; reject: (e: Error) => void }
+  >();
+  const stop = (reason: string) => {
+    worker?.terminate();
+    worker = null;
+    pending.forEach(({ reject }) => reject(new Error(reason)));
+    pending.clear();
+  };
+  return {
+    solve: (state: GameState, nodeLimit?: number) =>
+      new Promise<SolveResult>((resolve, reject) => {
+        if (!worker) {
+          worker = new Worker(
+            new URL("./klondike_solver.worker.ts", import.meta.url),
+            { type: "module" }
+          );
+          worker.onmessage = (e: MessageEvent<SolveResponse>) => {
+            pending.get(e.data.id)?.resolve(e.data.result);
+            pending.delete(e.data.id);
+          };
+          worker.onerror = (e) => {
+            e.preventDefault();
+            stop(`the solver crashed: ${e.message}`);
+          };
+        }
+        const id = nextId++;
+        pending.set(id, { resolve, reject });
+        const request: SolveRequest = { id, state, nodeLimit };
+        worker.postMessage(request);
+      }),
+    terminate: () => stop("the solver was stopped"),
+  };
 };
 
+interface CardLook {
+  size: CardSize;
+  face: FaceStyle;
+  back: CardBack;
+  // an empty pile
+  slot: string;
+}
+// how every card is drawn, set from the appearance settings
+const CardLookContext = React.createContext<CardLook>({
+  size: cardSize(100, FACES.classic),
+  face: FACES.classic,
+  back: CARD_BACKS.navy,
+  slot: "white",
+});
+
+// what a dragged card carries. a race has two boards on the page, so it
+// says which one it left and how big that board's cards are
+interface DragItem {
+  board: string;
+  source: string;
+  startIndex: number;
+  cards: CardType[];
+  size: CardSize;
+}
+const MAIN_BOARD = "main";
+
 interface CardProps {
   card: CardType;
   index: number;
   spacing?: number;
   isDraggable: boolean;
+  board: string;
   source: string;
   cards: CardType[];
   onClick: (c: CardType, s: string, i: number) => void;
   isPreview?: boolean;
+  isHinted?: boolean;
+  isFocused?: boolean;
+  isHeld?: boolean;
 }
 
 const Card: React.FC<CardProps> = ({
   card,
   index,
-  spacing = CARD_OFFSET,
+  spacing,
   isDraggable,
+  board,
   source,
   cards,
   onClick,
   isPreview = false,
+  isHinted = false,
+  isFocused = false,
+  isHeld = false,
 }) => {
+  const { size, face, back } = useContext(CardLookContext);
   const [, drag, preview] = useDrag(
     () => ({
       type: "CARD",
-      item: { source, startIndex: index, cards: cards.slice(index) },
+      item: (): DragItem => ({
+        board,
+        source,
+        startIndex: index,
+        cards: cards.slice(index),
+        size,
+      }),
       canDrag: isDraggable,
     }),
-    [source, index, cards, isDraggable]
+    [board, source, index, cards, isDraggable, size]
   );
   useEffect(() => {
     preview(getEmptyImage(), { captureDraggingState: true });
@@ -158,11 +696,12 @@ const Card: React.FC<CardProps> = ({
 
   const { isDragging, item } = useDragLayer((m) => ({
     isDragging: m.isDragging(),
-    item: m.getItem() as any,
+    item: m.getItem() as DragItem | null,
   }));
   const hidden =
     !isPreview &&
     isDragging &&
+    item?.board === board &&
     item.source === source &&
     index >= item.startIndex;
 
@@ -179,45 +718,59 @@ const Card: React.FC<CardProps> = ({
     }
   })()!;
 
-  const color = card.isFaceUp
-    ? card.suit === "HEARTS" || card.suit === "DIAMONDS"
-      ? "red"
-      : "black"
-    : "white";
+  const color = card.isFaceUp ? face.colors[card.suit] : "white";
+  const rankSize = size.width * face.rankSize;
+  const inset = size.width * 0.04;
 
-  const yOffset = source.startsWith("tableau") ? index * spacing : 0;
+  const yOffset = source.startsWith("tableau")
+    ? index * (spacing ?? size.offset)
+    : 0;
 
   return (
     <div
       ref={drag}
+      role="img"
+      aria-label={cardLabel(card)}
+      data-card={`${card.suit}-${card.rank}`}
+      data-face-up={card.isFaceUp}
       onClick={() => card.isFaceUp && onClick(card, source, index)}
       style={{
-        width: CARD_WIDTH,
-        height: CARD_HEIGHT,
+        width: size.width,
+        height: size.height,
         position: "absolute",
         top: yOffset,
-        backgroundColor: card.isFaceUp ? "white" : "navy",
-        border: "1px solid black",
-        borderRadius: 8,
+        background: card.isFaceUp ? "white" : back.background,
+        boxShadow: card.isFaceUp ? undefined : "inset 0 0 0 3px white",
+        border: face.border,
+        borderRadius: size.width * 0.08,
+        fontWeight: face.weight,
         cursor: isDraggable ? "move" : "default",
         opacity: hidden ? 0 : 1,
+        animation: isHinted ? HINT_PULSE : undefined,
+        outline: isHeld ? HELD_OUTLINE : isFocused ? FOCUS_OUTLINE : undefined,
+        transform: isHeld ? "translateY(-6px)" : undefined,
+        // a long press shouldn't select text or open the ios callout
+        userSelect: "none",
+        WebkitUserSelect: "none",
+        WebkitTouchCallout: "none",
         color,
       }}
     >
-      {card.isFaceUp ? (
+      {card.isFaceUp && (
         <>
           <div
             style={{
               position: "absolute",
-              top: 4,
-              left: 4,
+              top: inset,
+              left: inset,
               display: "flex",
               alignItems: "center",
-              fontSize: 16,
+              fontSize: rankSize,
+              lineHeight: 1,
             }}
           >
             <span>{card.rank}</span>
-            <SuitIcon size={12} style={{ marginLeft: 2 }} />
+            <SuitIcon size={rankSize * 0.75} style={{ marginLeft: 2 }} />
           </div>
           <div
             style={{
@@ -227,48 +780,571 @@ const Card: React.FC<CardProps> = ({
               transform: "translate(-50%,-50%)",
             }}
           >
-            <SuitIcon size={48} />
+            <SuitIcon size={size.width * face.pipSize} />
           </div>
           <div
             style={{
               position: "absolute",
-              bottom: 4,
-              right: 4,
+              bottom: inset,
+              right: inset,
               display: "flex",
               alignItems: "center",
-              fontSize: 16,
+              fontSize: rankSize,
+              lineHeight: 1,
               transform: "rotate(180deg)",
             }}
           >
             <span>{card.rank}</span>
-            <SuitIcon size={12} style={{ marginLeft: 2 }} />
+            <SuitIcon size={rankSize * 0.75} style={{ marginLeft: 2 }} />
           </div>
         </>
-      ) : (
+      )}
+    </div>
+  );
+};
+
+const SUIT_SYMBOLS: Record<Suit, string> = {
+  HEARTS: "♥",
+  DIAMONDS: "♦",
+  CLUBS: "♣",
+  SPADES: "♠",
+};
+
+// the old windows finish: cards leap off the foundations one after another
+// and bounce away, leaving trails because the canvas is never cleared
+const VictoryAnimation: React.FC<{
+  foundation: FoundationPile[];
+  layout: BoardLayout;
+  origin: { x: number; y: number };
+  size: CardSize;
+  colors: Record<Suit, string>;
+}> = ({ foundation, layout, origin, size, colors }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = window.innerWidth;
+    canvas.height = window.innerHeight;
+    const ctx = canvas.getContext("2d")!;
+    const w = size.width;
+    const h = size.height;
+    // the drawing below was laid out for a 100px card
+    const scale = size.width / 100;
+    const columns = layout.topRow
+      .filter(([id]) => id.startsWith("foundation"))
+      .map(([, column]) => column);
+
+    // kings first, going round the foundations
+    const queue: { card: CardType; pile: number }[] = [];
+    for (let r = RANKS.length - 1; r >= 0; r--)
+      foundation.forEach((pile, i) =>
+        queue.push({ card: pile.cards[r], pile: i })
+      );
+
+    const flying: {
+      card: CardType;
+      x: number;
+      y: number;
+      vx: number;
+      vy: number;
+    }[] = [];
+    const drawCard = (card: CardType, x: number, y: number) => {
+      ctx.fillStyle = "white";
+      ctx.strokeStyle = "black";
+      ctx.fillRect(x, y, w, h);
+      ctx.strokeRect(x, y, w, h);
+      ctx.fillStyle = colors[card.suit];
+      ctx.font = `${16 * scale}px sans-serif`;
+      ctx.fillText(
+        `${card.rank}${SUIT_SYMBOLS[card.suit]}`,
+        x + 4,
+        y + 18 * scale
+      );
+      ctx.font = `${48 * scale}px sans-serif`;
+      ctx.fillText(
+        SUIT_SYMBOLS[card.suit],
+        x + w / 2 - 16 * scale,
+        y + h / 2 + 16 * scale
+      );
+    };
+
+    let frame = 0;
+    let raf = 0;
+    const tick = () => {
+      if (frame++ % 20 === 0 && queue.length) {
+        const { card, pile } = queue.shift()!;
+        flying.push({
+          card,
+          x: origin.x + columns[pile] * (size.width + size.gap),
+          y: origin.y,
+          vx: (Math.random() < 0.5 ? -1 : 1) * (2 + Math.random() * 4),
+          vy: -Math.random() * 8,
+        });
+      }
+      for (let i = flying.length - 1; i >= 0; i--) {
+        const f = flying[i];
+        f.vy += 0.5;
+        f.x += f.vx;
+        f.y += f.vy;
+        if (f.y + h > canvas.height) {
+          f.y = canvas.height - h;
+          f.vy *= -0.75;
+        }
+        if (f.x + w < 0 || f.x > canvas.width) flying.splice(i, 1);
+        else drawCard(f.card, f.x, f.y);
+      }
+      if (queue.length || flying.length) raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+    // size is rebuilt on every render, so only its numbers restart the show
+  }, [foundation, layout, origin, size.width, size.height, size.gap, colors]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ position: "fixed", inset: 0, pointerEvents: "none" }}
+    />
+  );
+};
+
+const STATS_ROWS: [string, (m: ModeStats) => string][] = [
+  ["Games played", (m) => String(m.played)],
+  ["Games won", (m) => String(m.won)],
+  [
+    "Win rate",
+    (m) => (m.played ? `${Math.round((m.won / m.played) * 100)}%` : "–"),
+  ],
+  ["Current streak", (m) => String(m.currentStreak)],
+  ["Best streak", (m) => String(m.bestStreak)],
+  [
+    "Fastest win",
+    (m) => (m.fastestWin === null ? "–" : formatTime(m.fastestWin)),
+  ],
+  [
+    "Fewest moves",
+    (m) => (m.fewestMoves === null ? "–" : String(m.fewestMoves)),
+  ],
+];
+
+const download = (name: string, text: string, type: string) => {
+  const blob = new Blob([text], { type });
+  const link = document.createElement("a");
+  link.download = name;
+  link.href = URL.createObjectURL(blob);
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+const exportStats = (stats: StatsFile) =>
+  download(
+    "klondike-stats.json",
+    JSON.stringify(stats, null, 2),
+    "application/json"
+  );
+
+const StatsModal: React.FC<{
+  stats: StatsFile;
+  // the stored file is from another version, so these stats go nowhere
+  unreadable: boolean;
+  onReset: () => void;
+  onClose: () => void;
+}> = ({ stats, unreadable, onReset, onClose }) => {
+  const modes = STATS_MODES;
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0, 0, 0, 0.4)",
+        zIndex: 300,
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          position: "absolute",
+          left: "50%",
+          top: "50%",
+          transform: "translate(-50%, -50%)",
+          maxHeight: "90vh",
+          overflowY: "auto",
+          padding: "20px 32px",
+          background: "white",
+          borderRadius: 8,
+        }}
+      >
+        <h2 style={{ marginTop: 0 }}>Statistics</h2>
+        {unreadable && (
+          <p style={{ color: "firebrick", maxWidth: 480 }}>
+            Your saved statistics are from another version of the game and
+            can't be read here. They're kept untouched, so games played now
+            aren't counted, and reset and export are off.
+          </p>
+        )}
+        <table style={{ borderCollapse: "collapse", marginBottom: 16 }}>
+          <thead>
+            <tr>
+              <th />
+              {modes.map(([key, label]) => (
+                <th key={key} style={{ padding: "0 16px" }}>
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {STATS_ROWS.map(([label, value]) => (
+              <tr key={label}>
+                <td>{label}</td>
+                {modes.map(([key]) => (
+                  <td
+                    key={key}
+                    style={{ padding: "0 16px", textAlign: "right" }}
+                  >
+                    {value(stats.modes[key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {modes.map(([key, label]) =>
+          (["standard", "vegas"] as ScoringMode[]).map((scoring) => {
+            const bins = histogram(stats.modes[key].scores[scoring]);
+            if (bins.length === 0) return null;
+            const tallest = Math.max(...bins.map((b) => b.count));
+            return (
+              <div key={`${key}-${scoring}`} style={{ marginBottom: 12 }}>
+                <strong>
+                  {label}, {scoring} scores
+                </strong>
+                {bins.map((b) => (
+                  <div
+                    key={b.from}
+                    style={{ display: "flex", alignItems: "center", gap: 8 }}
+                  >
+                    <span style={{ width: 110, textAlign: "right" }}>
+                      {b.from === b.to ? b.from : `${b.from} – ${b.to}`}
+                    </span>
+                    <div
+                      style={{
+                        width: (b.count / tallest) * 200,
+                        height: 12,
+                        background: "steelblue",
+                      }}
+                    />
+                    <span>{b.count}</span>
+                  </div>
+                ))}
+              </div>
+            );
+          })
+        )}
+        <button disabled={unreadable} onClick={() => exportStats(stats)}>
+          Export JSON
+        </button>{" "}
+        <button disabled={unreadable} onClick={onReset}>
+          Reset
+        </button>{" "}
+        <button onClick={onClose}>Close</button>
+      </div>
+    </div>
+  );
+};
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// a month at a time, with the won days marked; any day up to today can be
+// played, so a missed one can still be caught up on
+const DailyCalendar: React.FC<{
+  daily: DailyFile;
+  today: string;
+  onPlay: (date: string) => void;
+  onClose: () => void;
+}> = ({ daily, today, onPlay, onClose }) => {
+  const [month, setMonth] = useState(() => {
+    const d = new Date(`${today}T12:00`);
+    return new Date(d.getFullYear(), d.getMonth(), 1);
+  });
+  const year = month.getFullYear();
+  const days = new Date(year, month.getMonth() + 1, 0).getDate();
+  // monday first
+  const blanks = (month.getDay() + 6) % 7;
+  const shift = (n: number) =>
+    setMonth(new Date(year, month.getMonth() + n, 1));
+  const won = Object.keys(daily.days).length;
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0, 0, 0, 0.4)",
+        zIndex: 300,
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          position: "absolute",
+          left: "50%",
+          top: "50%",
+          transform: "translate(-50%, -50%)",
+          maxHeight: "90vh",
+          overflowY: "auto",
+          padding: "20px 32px",
+          background: "white",
+          color: "black",
+          borderRadius: 8,
+        }}
+      >
+        <h2 style={{ marginTop: 0 }}>Daily deals</h2>
         <div
           style={{
-            width: "100%",
-            height: "100%",
             display: "flex",
-            justifyContent: "center",
             alignItems: "center",
-            fontSize: 24,
+            gap: 8,
+            marginBottom: 8,
           }}
         >
-          ?
+          <button onClick={() => shift(-1)} aria-label="Previous month">
+            ◀
+          </button>
+          <strong style={{ flex: 1, textAlign: "center" }}>
+            {month.toLocaleDateString(undefined, {
+              month: "long",
+              year: "numeric",
+            })}
+          </strong>
+          <button onClick={() => shift(1)} aria-label="Next month">
+            ▶
+          </button>
         </div>
-      )}
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(7, 84px)",
+            gap: 4,
+            marginBottom: 12,
+          }}
+        >
+          {WEEKDAYS.map((d) => (
+            <strong key={d} style={{ textAlign: "center" }}>
+              {d}
+            </strong>
+          ))}
+          {Array.from({ length: blanks }, (_, i) => (
+            <span key={`blank-${i}`} />
+          ))}
+          {Array.from({ length: days }, (_, i) => {
+            const date = dateKey(new Date(year, month.getMonth(), i + 1));
+            const result = daily.days[date];
+            const future = date > today;
+            return (
+              <button
+                key={date}
+                onClick={() => onPlay(date)}
+                disabled={future}
+                title={
+                  future ? undefined : `Play the deal for ${formatDate(date)}`
+                }
+                style={{
+                  height: 56,
+                  padding: 4,
+                  textAlign: "left",
+                  verticalAlign: "top",
+                  background: result ? "#cfc" : "white",
+                  border:
+                    date === today ? "2px solid royalblue" : "1px solid #ccc",
+                  borderRadius: 4,
+                  cursor: future ? "default" : "pointer",
+                }}
+              >
+                <div>{i + 1}</div>
+                {result && (
+                  <div style={{ fontSize: 11 }}>
+                    {formatTime(result.fastestWin)} · {result.fewestMoves} moves
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+        <p style={{ margin: "0 0 12px" }}>
+          {won} {won === 1 ? "day" : "days"} won in all
+        </p>
+        <button onClick={() => onPlay(today)}>Play today's deal</button>{" "}
+        <button onClick={onClose}>Close</button>
+      </div>
+    </div>
+  );
+};
+
+// steps through a game one event at a time, from the deal to the end
+const ReplayViewer: React.FC<{
+  replay: Replay;
+  positions: GameState[];
+  onClose: () => void;
+}> = ({ replay, positions, onClose }) => {
+  const [step, setStep] = useState(positions.length - 1);
+  const panelRef = useRef<HTMLDivElement>(null);
+  // the arrow keys step as soon as it opens
+  useEffect(() => panelRef.current?.focus(), []);
+  const last = positions.length - 1;
+  const go = (n: number) => setStep(Math.max(0, Math.min(last, n)));
+  const notation = replay.events.map((e, i) => eventNotation(positions[i], e));
+  const game = positions[step];
+  const event = replay.events[step - 1];
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(0, 0, 0, 0.4)",
+        zIndex: 300,
+      }}
+    >
+      <div
+        ref={panelRef}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === "ArrowLeft") go(step - 1);
+          else if (e.key === "ArrowRight") go(step + 1);
+          else if (e.key === "Home") go(0);
+          else if (e.key === "End") go(last);
+          else if (e.key === "Escape") onClose();
+          else return;
+          e.preventDefault();
+        }}
+        tabIndex={-1}
+        style={{
+          position: "absolute",
+          left: "50%",
+          top: "50%",
+          transform: "translate(-50%, -50%)",
+          maxWidth: "95vw",
+          maxHeight: "95vh",
+          overflow: "auto",
+          padding: "20px 32px",
+          background: "white",
+          color: "black",
+          borderRadius: 8,
+          outline: "none",
+        }}
+      >
+        <h2 style={{ marginTop: 0 }}>
+          Replay of deal #{replay.seed},{" "}
+          {replay.rules.variant === "klondike"
+            ? `Klondike, draw ${replay.rules.drawCount}`
+            : VARIANTS[replay.rules.variant].name}
+        </h2>
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 8,
+            marginBottom: 12,
+          }}
+        >
+          <button onClick={() => go(0)} disabled={step === 0}>
+            ⏮
+          </button>
+          <button onClick={() => go(step - 1)} disabled={step === 0}>
+            ◀ Back
+          </button>
+          <button onClick={() => go(step + 1)} disabled={step === last}>
+            Forward ▶
+          </button>
+          <button onClick={() => go(last)} disabled={step === last}>
+            ⏭
+          </button>
+          <input
+            type="range"
+            aria-label="Event"
+            min={0}
+            max={last}
+            value={step}
+            onChange={(e) => go(+e.target.value)}
+          />
+          <span>
+            {step === 0
+              ? "The deal"
+              : `${step}/${last}: ${notation[step - 1]} at ${formatTime(
+                  Math.floor(event.at / 1000)
+                )}`}
+            {" · "}Moves {game.moves} ·{" "}
+            {game.rules.scoring === "vegas" ? "Balance" : "Score"}{" "}
+            {formatScore(game)}
+          </span>
+        </div>
+        <Board game={game} interactive={false} />
+        <ol
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            gap: "4px 16px",
+            maxHeight: 120,
+            overflowY: "auto",
+            paddingLeft: 24,
+          }}
+        >
+          {notation.map((n, i) => (
+            <li
+              key={i}
+              onClick={() => go(i + 1)}
+              style={{
+                cursor: "pointer",
+                fontWeight: i + 1 === step ? "bold" : "normal",
+              }}
+            >
+              {n}
+            </li>
+          ))}
+        </ol>
+        <button
+          onClick={() =>
+            download(
+              `solitaire-replay-${replay.seed}.json`,
+              JSON.stringify(replay, null, 2),
+              "application/json"
+            )
+          }
+        >
+          Export JSON
+        </button>{" "}
+        <button
+          onClick={() =>
+            download(
+              `solitaire-replay-${replay.seed}.txt`,
+              replayNotation(replay, positions),
+              "text/plain"
+            )
+          }
+        >
+          Export notation
+        </button>{" "}
+        <button onClick={onClose}>Close</button>
+      </div>
     </div>
   );
 };
 
+// pinned at its top left corner to where the dragged card sits under the
+// finger or pointer, drawn as big as the board it came from draws cards
 const CustomDragLayer: React.FC = () => {
   const { isDragging, item, currentOffset } = useDragLayer((m) => ({
     isDragging: m.isDragging(),
-    item: m.getItem() as any,
+    item: m.getItem() as DragItem | null,
     currentOffset: m.getSourceClientOffset(),
   }));
-  if (!isDragging || !currentOffset) return null;
+  const look = useContext(CardLookContext);
+  if (!isDragging || !item || !currentOffset) return null;
   const { x, y } = currentOffset;
   return (
     <div
@@ -281,29 +1357,703 @@ const CustomDragLayer: React.FC = () => {
       }}
     >
       <div style={{ transform: `translate(${x}px,${y}px)` }}>
-        {item.cards.map((c: CardType, i: number) => (
-          <Card
-            key={`${c.suit}-${c.rank}-${i}-preview`}
-            card={c}
-            index={i}
-            spacing={CARD_OFFSET}
-            isDraggable={false}
-            source={item.source}
-            cards={item.cards}
-            onClick={() => {}}
-            isPreview
-          />
+        <CardLookContext.Provider value={{ ...look, size: item.size }}>
+          {item.cards.map((c, i) => (
+            <Card
+              key={`${c.suit}-${c.rank}-${i}-preview`}
+              card={c}
+              index={i}
+              isDraggable={false}
+              board={item.board}
+              source={item.source}
+              cards={item.cards}
+              onClick={() => {}}
+              isPreview
+            />
+          ))}
+        </CardLookContext.Provider>
+      </div>
+    </div>
+  );
+};
+
+// development builds check every move's result, so a bug that loses or
+// copies a card shows up where it happens instead of in a later save.
+// import.meta.env is vite's; other bundlers leave it undefined
+const CHECK_STATES = !!import.meta.env?.DEV;
+
+// a move the checks refused comes back marked broken, with a message for
+// the player rather than the engine's reason
+const checkedMove = (
+  g: GameState,
+  move: Move
+): MoveResult | { ok: false; error: string; broken: true } => {
+  const result = playMove(g, move);
+  if (!CHECK_STATES || !result.ok) return result;
+  const problems = stateProblems(result.state);
+  if (problems.length === 0) return result;
+  const found = problems.join("; ");
+  return {
+    ok: false,
+    error: `Refused a move that would break the game (${found}). This is a bug, please report it.`,
+    broken: true,
+  };
+};
+
+// the card the keyboard cursor is on: any face-up card in a tableau
+// column, otherwise the top card, -1 on an empty pile or the stock
+const focusIndexFor = (game: GameState, pile: string, wanted: number) => {
+  if (pile === "stock") return -1;
+  const cards = pileOf(game, pile);
+  if (!pile.startsWith("tableau")) return cards.length - 1;
+  const firstUp = cards.findIndex((c) => c.isFaceUp);
+  if (firstUp === -1) return cards.length - 1;
+  return Math.min(Math.max(wanted, firstUp), cards.length - 1);
+};
+
+const describeSpot = (game: GameState, pile: string, index: number) => {
+  if (pile === "stock")
+    return `stock, ${game.stock.length} cards${
+      game.stock.length === 0 && !moveError(game, { type: "stock" })
+        ? ", select to recycle"
+        : ""
+    }`;
+  const cards = pileOf(game, pile);
+  return `${pileName(pile)}: ${index >= 0 ? cardLabel(cards[index]) : "empty"}`;
+};
+
+type Direction = "left" | "right" | "up" | "down";
+
+// where an arrow takes the cursor from the card it's on, as a pile and the
+// card wanted there; 99 asks for the top card. null when it can't go that way
+const stepCursor = (
+  game: GameState,
+  pile: string,
+  focus: number,
+  direction: Direction
+): [string, number] | null => {
+  const layout = LAYOUTS[game.rules.variant];
+  const topRow = layout.topRow;
+  const topPos = topRow.findIndex(([p]) => p === pile);
+  const col = topPos === -1 ? +pile.split("-")[1] : topRow[topPos][1];
+  switch (direction) {
+    case "left":
+    case "right": {
+      const step = direction === "left" ? -1 : 1;
+      return topPos === -1
+        ? [
+            `tableau-${Math.min(layout.columns - 1, Math.max(0, col + step))}`,
+            99,
+          ]
+        : [
+            topRow[Math.min(topRow.length - 1, Math.max(0, topPos + step))][0],
+            99,
+          ];
+    }
+    case "up":
+      if (topPos !== -1) return null;
+      if (focusIndexFor(game, pile, focus - 1) < focus)
+        return [pile, focus - 1];
+      // a gap in the top row belongs to the nearest pile on its left
+      return [
+        ([...topRow].reverse().find(([, c]) => c <= col) ?? topRow[0])[0],
+        99,
+      ];
+    case "down":
+      if (topPos !== -1) return [`tableau-${col}`, 99];
+      return focusIndexFor(game, pile, focus + 1) > focus
+        ? [pile, focus + 1]
+        : null;
+  }
+};
+
+interface BoardProps {
+  game: GameState;
+  // tells the boards of a race apart, MAIN_BOARD when left out
+  id?: string;
+  // a board played from the keyboard, or only watched, takes no drags
+  // or clicks
+  interactive?: boolean;
+  onStock?: () => void;
+  onDrop?: (source: string, index: number, target: string) => void;
+  onCardClick?: (c: CardType, s: string, i: number) => void;
+  // a tap on an empty pile, for dropping held cards there
+  onPileClick?: (pile: string) => void;
+  hint?: Hint | null;
+  cursor?: { pile: string; index: number } | null;
+  held?: { source: string; index: number } | null;
+}
+
+// the moving card and whatever it lands on, given the full pile length
+const isHinted = (b: BoardProps, pile: string, i: number, length: number) =>
+  !!b.hint &&
+  ((b.hint.source === pile && b.hint.index === i) ||
+    (b.hint.target === pile && i === length - 1));
+const showCursor = (b: BoardProps, pile: string, i: number) =>
+  b.cursor?.pile === pile && b.cursor.index === i;
+const isHeldCard = (b: BoardProps, pile: string, i: number) =>
+  !!b.held && b.held.source === pile && i >= b.held.index;
+
+const Pile: React.FC<{
+  board: BoardProps;
+  index: number;
+  type: "foundation" | "tableau" | "cell";
+}> = ({ board, index, type }) => {
+  const { game, interactive = true } = board;
+  const boardId = board.id ?? MAIN_BOARD;
+  const id = `${type}-${index}`;
+  const { size, slot } = useContext(CardLookContext);
+  const layout = LAYOUTS[game.rules.variant];
+  const [{ isOver }, drop] = useDrop(
+    () => ({
+      accept: "CARD",
+      canDrop: (item: DragItem) => interactive && item.board === boardId,
+      drop: (item: DragItem) =>
+        board.onDrop?.(item.source, item.startIndex, id),
+      collect: (m) => ({ isOver: m.isOver() && m.canDrop() }),
+    }),
+    [board]
+  );
+
+  const pile = pileOf(game, id);
+  const cards = type === "tableau" ? pile : pile.slice(-1);
+  const offset = pile.length - cards.length;
+
+  const spacing =
+    type === "tableau" && cards.length > 1
+      ? Math.min(
+          size.offset,
+          (rowHeight(layout, size) - size.height) / (cards.length - 1)
+        )
+      : 0;
+
+  return (
+    <div
+      ref={drop}
+      role="group"
+      aria-label={`${pileName(id)}, ${pile.length} cards`}
+      onClick={() => pile.length === 0 && board.onPileClick?.(id)}
+      style={{
+        width: size.width,
+        height: type === "tableau" ? rowHeight(layout, size) : size.height,
+        outline:
+          pile.length === 0 && showCursor(board, id, -1)
+            ? FOCUS_OUTLINE
+            : undefined,
+        border: "1px dashed gray",
+        backgroundColor: isOver ? "lightgreen" : slot,
+        position: "relative",
+        overflow: "visible",
+        animation:
+          pile.length === 0 && board.hint?.target === id
+            ? HINT_PULSE
+            : undefined,
+      }}
+    >
+      {cards.map((c, i) => (
+        <Card
+          key={`${c.suit}-${c.rank}-${i}-${type}`}
+          card={c}
+          index={offset + i}
+          spacing={spacing}
+          isDraggable={c.isFaceUp && interactive}
+          board={boardId}
+          source={id}
+          cards={pile}
+          onClick={(interactive && board.onCardClick) || (() => {})}
+          isHinted={isHinted(board, id, offset + i, pile.length)}
+          isFocused={showCursor(board, id, offset + i)}
+          isHeld={isHeldCard(board, id, offset + i)}
+        />
+      ))}
+    </div>
+  );
+};
+
+// one game's piles, laid out for its variant. it only draws what it's
+// given, so the page can hold more than one
+const Board: React.FC<BoardProps> = (props) => {
+  const { game, interactive = true } = props;
+  const { size, back } = useContext(CardLookContext);
+  const variant = VARIANTS[game.rules.variant];
+  const layout = LAYOUTS[game.rules.variant];
+  const onCardClick = (interactive && props.onCardClick) || (() => {});
+
+  return (
+    <div
+      style={{
+        display: "grid",
+        gridTemplateColumns: `repeat(${layout.columns}, ${size.width}px)`,
+        gridTemplateRows: `auto ${rowHeight(layout, size)}px`,
+        gap: size.gap,
+      }}
+    >
+      {variant.stock && (
+        <div
+          onClick={interactive ? props.onStock : undefined}
+          role="button"
+          data-pile="stock"
+          aria-label={describeSpot(game, "stock", -1)}
+          style={{
+            gridColumn: 1,
+            gridRow: 1,
+            width: size.width,
+            height: size.height,
+            position: "relative",
+            cursor:
+              !interactive || moveError(game, { type: "stock" })
+                ? "default"
+                : "pointer",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            borderRadius: 5,
+            animation: props.hint?.source === "stock" ? HINT_PULSE : undefined,
+            outline: showCursor(props, "stock", -1) ? FOCUS_OUTLINE : undefined,
+          }}
+        >
+          {game.stock.length > 0 ? (
+            <div
+              style={{
+                width: "100%",
+                height: "100%",
+                background: back.background,
+                boxShadow: "inset 0 0 0 3px white",
+                border: "1px solid black",
+                borderRadius: 5,
+              }}
+            />
+          ) : variant.stock !== "waste" ? null : canRecycle(game) ? (
+            <span>Reset</span>
+          ) : (
+            <span style={{ color: "gray" }}>No passes left</span>
+          )}
+        </div>
+      )}
+
+      {variant.stock === "waste" && (
+        <div
+          role="group"
+          aria-label={`waste, ${game.waste.length} cards`}
+          data-pile="waste"
+          style={{
+            gridColumn: 2,
+            gridRow: 1,
+            width: size.width,
+            height: size.height,
+            position: "relative",
+            borderRadius: 5,
+            outline: showCursor(props, "waste", -1) ? FOCUS_OUTLINE : undefined,
+          }}
+        >
+          {game.waste.slice(-game.rules.drawCount).map((c, i, fan) => {
+            const index = game.waste.length - fan.length + i;
+            const isTop = i === fan.length - 1;
+            return (
+              <div
+                key={`${c.suit}-${c.rank}-waste`}
+                style={{
+                  position: "absolute",
+                  left: i * size.fan,
+                }}
+              >
+                <Card
+                  card={c}
+                  index={index}
+                  spacing={0}
+                  isDraggable={isTop && interactive}
+                  board={props.id ?? MAIN_BOARD}
+                  source="waste"
+                  cards={game.waste}
+                  onClick={isTop ? onCardClick : () => {}}
+                  isHinted={isHinted(props, "waste", index, game.waste.length)}
+                  isFocused={showCursor(props, "waste", index)}
+                  isHeld={isHeldCard(props, "waste", index)}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {layout.topRow
+        .filter(([id]) => id !== "stock" && id !== "waste")
+        .map(([id, column]) => {
+          const [type, i] = id.split("-");
+          return (
+            <div key={id} style={{ gridColumn: column + 1, gridRow: 1 }}>
+              <Pile
+                board={props}
+                index={+i}
+                type={type as "foundation" | "cell"}
+              />
+            </div>
+          );
+        })}
+
+      {game.tableau.map((_, i) => (
+        <div key={i} style={{ gridColumn: 1 + i, gridRow: 2 }}>
+          <Pile board={props} index={i} type="tableau" />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+type RaceControl = "mouse" | "wasd" | "arrows";
+type RaceAction = Direction | "select" | "draw" | "foundation";
+
+const RACE_CONTROLS: [RaceControl, string][] = [
+  ["mouse", "Mouse"],
+  ["wasd", "WASD keys"],
+  ["arrows", "Arrow keys"],
+];
+// both players share one keyboard, so each gets a hand's worth of keys
+const RACE_KEYS: Record<
+  Exclude<RaceControl, "mouse">,
+  Record<string, RaceAction>
+> = {
+  wasd: {
+    w: "up",
+    a: "left",
+    s: "down",
+    d: "right",
+    e: "select",
+    q: "draw",
+    f: "foundation",
+  },
+  arrows: {
+    ArrowUp: "up",
+    ArrowLeft: "left",
+    ArrowDown: "down",
+    ArrowRight: "right",
+    Enter: "select",
+    "/": "draw",
+    ".": "foundation",
+  },
+};
+const RACE_HELP: Record<RaceControl, string> = {
+  mouse: "Drag cards, or click one to play it",
+  wasd: "WASD move, E picks up and drops, Q draws, F sends to a foundation",
+  arrows:
+    "Arrows move, Enter picks up and drops, / draws, . sends to a foundation",
+};
+
+// one player's side of a race: a game of their own with its own clock,
+// played with the mouse or their own keys
+const RaceBoard: React.FC<{
+  player: number;
+  seed: number;
+  rules: Rules;
+  control: RaceControl;
+  // once somebody has won nobody moves any more
+  over: boolean;
+  onWin: (elapsed: number) => void;
+  onRefused: (message: string) => void;
+}> = ({ player, seed, rules, control, over, onWin, onRefused }) => {
+  const [game, setGame] = useState(() => initializeGame(seed, rules));
+  const [elapsed, setElapsed] = useState(0);
+  const [cursor, setCursor] = useState("tableau-0");
+  const [cursorIndex, setCursorIndex] = useState(99);
+  const [held, setHeld] = useState<{ source: string; index: number } | null>(
+    null
+  );
+  const won = isWon(game);
+  const running = game.moves > 0 && !won && !over;
+  const focus = focusIndexFor(game, cursor, cursorIndex);
+
+  useEffect(() => {
+    if (!running) return;
+    const id = window.setInterval(() => setElapsed((e) => e + 1), 1000);
+    return () => window.clearInterval(id);
+  }, [running]);
+  useEffect(() => {
+    if (won) onWin(elapsed);
+  }, [won]);
+  useEffect(() => setHeld(null), [game]);
+
+  const play = (move: Move) => {
+    const result = checkedMove(game, move);
+    if ("broken" in result) onRefused(result.error);
+    if (result.ok && !over) setGame(result.state);
+  };
+
+  const act = (action: RaceAction) => {
+    if (action === "select") {
+      if (held) {
+        setHeld(null);
+        if (held.source !== cursor)
+          play({ type: "move", ...held, target: cursor });
+      } else if (cursor === "stock") play({ type: "stock" });
+      else if (pileOf(game, cursor)[focus]?.isFaceUp)
+        setHeld({ source: cursor, index: focus });
+    } else if (action === "draw") play({ type: "stock" });
+    else if (action === "foundation") {
+      const pile = cursor === "stock" ? "waste" : cursor;
+      const move = foundationMoveFor(game, pile, pileOf(game, pile).length - 1);
+      if (move) play(move);
+    } else {
+      const to = stepCursor(game, cursor, focus, action);
+      if (!to) return;
+      setCursor(to[0]);
+      setCursorIndex(to[1]);
+    }
+  };
+
+  useEffect(() => {
+    if (control === "mouse" || over) return;
+    const keys = RACE_KEYS[control];
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const action = keys[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+      if (!action) return;
+      e.preventDefault();
+      act(action);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [control, over, game, cursor, cursorIndex, held]);
+
+  const mouse = control === "mouse";
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 16, marginBottom: 8 }}>
+        <strong>Player {player}</strong>
+        <span>Time {formatTime(elapsed)}</span>
+        <span>Moves {game.moves}</span>
+        <span>
+          {game.rules.scoring === "vegas" ? "Balance" : "Score"}{" "}
+          {formatScore(game)}
+        </span>
+      </div>
+      <Board
+        id={`race-${player}`}
+        game={game}
+        interactive={mouse && !over}
+        onStock={() => play({ type: "stock" })}
+        onDrop={(source, index, target) =>
+          play({ type: "move", source, index, target })
+        }
+        onCardClick={(_, source, index) => {
+          const move = clickMoveFor(game, source, index);
+          if (move) play(move);
+        }}
+        cursor={mouse || over ? null : { pile: cursor, index: focus }}
+        held={held}
+      />
+      <p style={{ opacity: 0.7 }}>{RACE_HELP[control]}</p>
+    </div>
+  );
+};
+
+// two boards side by side, dealt the same; the first to clear the
+// foundations wins
+const RaceMode: React.FC<{
+  rules: Rules;
+  onLeave: () => void;
+  onRefused: (message: string) => void;
+}> = ({ rules, onLeave, onRefused }) => {
+  const [seed, setSeed] = useState(randomSeed);
+  const [controls, setControls] = useState<RaceControl[]>(["wasd", "mouse"]);
+  const [winner, setWinner] = useState<{
+    player: number;
+    elapsed: number;
+  } | null>(null);
+  const look = useContext(CardLookContext);
+  const layout = LAYOUTS[rules.variant];
+  const [cardWidth, setCardWidth] = useState(look.size.width);
+
+  // both boards have to fit across the window, never bigger than the
+  // single board was
+  useEffect(() => {
+    const update = () => {
+      const unit = cardSize(100, look.face);
+      const fit =
+        ((window.innerWidth - 80) / 2 / boardWidth(layout, unit)) * 100;
+      setCardWidth(
+        Math.floor(Math.max(MIN_CARD_WIDTH, Math.min(look.size.width, fit)))
+      );
+    };
+    update();
+    window.addEventListener("resize", update);
+    return () => window.removeEventListener("resize", update);
+  }, [layout, look.face, look.size.width]);
+
+  const rematch = () => {
+    setSeed(randomSeed());
+    setWinner(null);
+  };
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 12,
+          marginBottom: 12,
+        }}
+      >
+        <span>
+          Race on deal <strong>#{seed}</strong>
+        </span>
+        {controls.map((control, i) => (
+          <label key={i}>
+            Player {i + 1}{" "}
+            <select
+              value={control}
+              onChange={(e) =>
+                setControls(
+                  controls.map((c, j) =>
+                    j === i ? (e.target.value as RaceControl) : c
+                  )
+                )
+              }
+            >
+              {RACE_CONTROLS.map(([id, name]) => (
+                <option
+                  key={id}
+                  value={id}
+                  // there's only one mouse, and a key can't steer both
+                  disabled={controls.some((c, j) => j !== i && c === id)}
+                >
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
         ))}
+        <button onClick={rematch}>New race</button>
+        <button onClick={onLeave}>Back to my game</button>
       </div>
+      {winner && (
+        <div
+          style={{
+            padding: "6px 12px",
+            marginBottom: 12,
+            width: "fit-content",
+            background: "#efe",
+            color: "black",
+            borderRadius: 5,
+          }}
+        >
+          Player {winner.player} wins in {formatTime(winner.elapsed)}!
+        </div>
+      )}
+      <CardLookContext.Provider
+        value={{ ...look, size: cardSize(cardWidth, look.face) }}
+      >
+        <div style={{ display: "flex", gap: 40 }}>
+          {controls.map((control, i) => (
+            <RaceBoard
+              key={`${seed}-${i}`}
+              player={i + 1}
+              seed={seed}
+              rules={rules}
+              control={control}
+              over={!!winner}
+              onWin={(elapsed) =>
+                setWinner((w) => w ?? { player: i + 1, elapsed })
+              }
+              onRefused={onRefused}
+            />
+          ))}
+        </div>
+      </CardLookContext.Provider>
     </div>
   );
 };
 
 const App: React.FC = () => {
-  const [game, setGame] = useState<GameState>(() => initializeGame());
+  // a shared link to a different deal wins over the game left in storage,
+  // though an unfinished one stays until the player agrees to drop it
+  const [loaded] = useState(loadSavedGame);
+  // a saved game that wouldn't load, or a move the checks refused
+  const [problem, setProblem] = useState(loaded.problem);
+  const [linkSeed] = useState(getUrlSeed);
+  const [saved] = useState(() => {
+    const s = loaded.saved;
+    const unfinished = !!s && s.game.moves > 0 && !isWon(s.game);
+    return s && (linkSeed === null || linkSeed === s.seed || unfinished)
+      ? s
+      : null;
+  });
+  const [seed, setSeed] = useState<number>(
+    () => saved?.seed ?? linkSeed ?? randomSeed()
+  );
+  const [rules, setRules] = useState<Rules>(saved?.game.rules ?? DEFAULT_RULES);
+  const [game, setGame] = useState<GameState>(
+    () => saved?.game ?? initializeGame(seed, rules)
+  );
+  const [seedInput, setSeedInput] = useState(String(seed));
+  const [past, setPast] = useState<GameState[]>(saved?.past ?? []);
+  const [future, setFuture] = useState<GameState[]>(saved?.future ?? []);
+  // deal searches get their own worker, so a long analysis can't hold them up
+  const [solver] = useState(createSolver);
+  const [dealSolver] = useState(createSolver);
+  const [analysis, setAnalysis] = useState<{
+    game: GameState;
+    result: SolveResult | null;
+  } | null>(null);
+  const [winnableOnly, setWinnableOnly] = useState(false);
+  const [dealing, setDealing] = useState(false);
+  const [notice, setNotice] = useState("");
+  // cards going up one at a time: the whole finish, or just the safe ones
+  const [autoPlaying, setAutoPlaying] = useState<"finish" | "safe" | null>(
+    null
+  );
+  const [elapsed, setElapsed] = useState(saved?.elapsed ?? 0);
+  const [carryVegas, setCarryVegas] = useState(saved?.carryVegas ?? false);
+  const [recorded, setRecorded] = useState(saved?.recorded ?? false);
+  const [log, setLog] = useState<GameLog | null>(() =>
+    saved ? saved.log ?? null : newLog(game)
+  );
+  const [daily, setDaily] = useState<string | null>(saved?.daily ?? null);
+  const [dailyFile, setDailyFile] = useState(loadDaily);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [racing, setRacing] = useState(false);
+  const today = dateKey(new Date());
+  const [viewing, setViewing] = useState<{
+    replay: Replay;
+    positions: GameState[];
+  } | null>(null);
+  const [stats, setStats] = useState(loadStats);
+  const [statsUnreadable] = useState(foreignStats);
+  const [showStats, setShowStats] = useState(false);
+  const [prefs, setPrefs] = useState(loadPrefs);
+  const [cursor, setCursor] = useState("tableau-0");
+  const [cursorIndex, setCursorIndex] = useState(0);
+  const [held, setHeld] = useState<{ source: string; index: number } | null>(
+    null
+  );
+  const [boardFocused, setBoardFocused] = useState(false);
+  const [announcement, setAnnouncement] = useState("");
+  const elapsedRef = useRef(elapsed);
+  elapsedRef.current = elapsed;
+  const [resultDismissed, setResultDismissed] = useState(false);
+  const [victoryOrigin, setVictoryOrigin] = useState<{
+    x: number;
+    y: number;
+  } | null>(null);
+  const [hint, setHint] = useState<{ game: GameState; hints: Hint[] } | null>(
+    null
+  );
   const boardRef = useRef<HTMLDivElement>(null);
-  const [scale, setScale] = useState(1);
+  const [cardWidth, setCardWidth] = useState(CARD_SIZES.medium.max);
+  const layout = LAYOUTS[game.rules.variant];
+  const face = FACES[prefs.face];
+  const table = TABLES[prefs.table];
+  const size = cardSize(cardWidth, face);
+  const look: CardLook = {
+    size,
+    face,
+    back: CARD_BACKS[prefs.back],
+    slot: table.slot,
+  };
 
+  // cards are as big as the chosen size allows while the board still fits
+  // the window; everything else on the board is measured from them
   useEffect(() => {
     const update = () => {
       if (!boardRef.current) return;
@@ -313,284 +2063,1100 @@ const App: React.FC = () => {
       const topOffset = boardRef.current.getBoundingClientRect().top;
       const availableHeight = window.innerHeight - topOffset - 20;
 
-      const scaleX = availableWidth / BOARD_WIDTH;
-      const scaleY = availableHeight / BOARD_HEIGHT;
-      setScale(Math.min(1, scaleX, scaleY));
+      // board size is proportional to card width, so measure one at 100px
+      const unit = cardSize(100, face);
+      const fitX = (availableWidth / boardWidth(layout, unit)) * 100;
+      const fitY = (availableHeight / boardHeight(layout, unit)) * 100;
+      const max = CARD_SIZES[prefs.cardSize].max;
+      setCardWidth(
+        Math.floor(Math.max(MIN_CARD_WIDTH, Math.min(max, fitX, fitY)))
+      );
     };
 
     update();
     window.addEventListener("resize", update);
     return () => window.removeEventListener("resize", update);
+  }, [layout, face, prefs.cardSize]);
+
+  useEffect(() => {
+    setUrlSeed(seed);
+    setSeedInput(String(seed));
+  }, [seed]);
+
+  useEffect(
+    () => () => {
+      solver.terminate();
+      dealSolver.terminate();
+    },
+    [solver, dealSolver]
+  );
+
+  // saved after every move; the clock ticks too often for that, so the
+  // latest time also goes out when the page is closed
+  useEffect(() => {
+    const save = () =>
+      storeGame({
+        version: SAVE_VERSION,
+        seed,
+        game,
+        past,
+        future,
+        elapsed: elapsedRef.current,
+        carryVegas,
+        recorded,
+        log: log ?? undefined,
+        daily: daily ?? undefined,
+      });
+    save();
+    window.addEventListener("pagehide", save);
+    return () => window.removeEventListener("pagehide", save);
+  }, [seed, game, past, future, carryVegas, recorded, log, daily]);
+
+  useEffect(() => storeStats(stats), [stats]);
+  useEffect(() => storeDaily(dailyFile), [dailyFile]);
+  useEffect(() => storePrefs(prefs), [prefs]);
+
+  // a game counts once: when it's won, or when it's abandoned after a move
+  const recordGame = () => {
+    if (recorded || game.moves === 0) return;
+    setStats((st) => recordResult(st, game, elapsedRef.current));
+    setRecorded(true);
+  };
+
+  // starting over throws away an unfinished game, so ask first
+  const confirmDiscard = () =>
+    game.moves === 0 ||
+    isWon(game) ||
+    window.confirm("Abandon the current game and start a new one?");
+
+  const deal = (s: number, r: Rules = rules) => {
+    recordGame();
+    justDealt.current = true;
+    setRecorded(false);
+    const fresh = initializeGame(s, r);
+    // a cumulative vegas bank starts the new deck from the old balance
+    if (r.scoring === "vegas" && carryVegas && game.rules.scoring === "vegas")
+      fresh.score += game.score;
+    setSeed(s);
+    setRules(r);
+    setGame(fresh);
+    setLog(newLog(fresh));
+    setDaily(null);
+    setElapsed(0);
+    setResultDismissed(false);
+    setPast([]);
+    setFuture([]);
+    setAutoPlaying(null);
+    // another variant may not have the pile the cursor was on
+    setCursor("tableau-0");
+  };
+
+  // the saved game was kept for now; the link's deal replaces it once the
+  // player says so, and the abandoned game goes into the stats on the way
+  const askedAboutLink = useRef(false);
+  useEffect(() => {
+    if (askedAboutLink.current || linkSeed === null || linkSeed === seed)
+      return;
+    askedAboutLink.current = true;
+    if (
+      window.confirm(
+        `Abandon the current game and open the shared deal #${linkSeed}?`
+      )
+    )
+      deal(linkSeed, DEFAULT_RULES);
   }, []);
 
-  const handleStock = () => {
-    const ng = { ...game };
-    if (ng.stock.length === 0) {
-      ng.stock = ng.waste.reverse().map((c) => ({ ...c, isFaceUp: false }));
-      ng.waste = [];
-    } else {
-      const c = ng.stock.pop()!;
-      ng.waste.push({ ...c, isFaceUp: true });
+  // everyone gets the same deal and rules for a date, whatever they last played
+  const playDaily = (date: string) => {
+    if (!confirmDiscard()) return;
+    setShowCalendar(false);
+    deal(dailySeed(date), DEFAULT_RULES);
+    setDaily(date);
+  };
+
+  const dealRandom = async () => {
+    if (!confirmDiscard()) return;
+    setNotice("");
+    // the solver only knows klondike
+    if (!winnableOnly || rules.variant !== "klondike")
+      return deal(randomSeed());
+    setDealing(true);
+    for (let i = 0; i < WINNABLE_DEAL_TRIES; i++) {
+      const s = randomSeed();
+      let status: SolveResult["status"];
+      try {
+        ({ status } = await dealSolver.solve(
+          initializeGame(s, rules),
+          WINNABLE_DEAL_NODE_LIMIT
+        ));
+      } catch (e) {
+        setDealing(false);
+        setNotice(`No deal found: ${(e as Error).message}`);
+        return;
+      }
+      if (status === "winnable") {
+        deal(s);
+        setDealing(false);
+        return;
+      }
+    }
+    setDealing(false);
+    setNotice(
+      `No provably winnable deal in ${WINNABLE_DEAL_TRIES} tries, try again`
+    );
+  };
+
+  const analyze = async () => {
+    const position = game;
+    setAnalysis({ game: position, result: null });
+    let result: SolveResult;
+    try {
+      result = await solver.solve(position);
+    } catch (e) {
+      setAnalysis((a) => (a?.game === position ? null : a));
+      setNotice(`Couldn't analyze the deal: ${(e as Error).message}`);
+      return;
     }
+    setAnalysis((a) => (a?.game === position ? { game: position, result } : a));
+  };
+  // results for an older position are stale once a move is made
+  const currentAnalysis = analysis?.game === game ? analysis : null;
+
+  const currentHints = hint?.game === game ? hint.hints : null;
+  const topHint = currentHints?.[0];
+
+  // every move goes through here so it can be undone
+  const commit = (ng: GameState) => {
+    setPast((p) => [...p, game]);
+    setFuture([]);
     setGame(ng);
   };
 
-  const moveCards = (
-    card: CardType,
-    source: string,
-    idx: number,
-    target: string
-  ) => {
-    const [srcType, srcIdxS] = source.split("-"),
-      srcIdx = +srcIdxS;
-    const [tgtType, tgtIdxS] = target.split("-"),
-      tgtIdx = +tgtIdxS;
-
-    let srcPile: CardType[];
-    if (srcType === "waste") srcPile = game.waste;
-    else if (srcType === "tableau") srcPile = game.tableau[srcIdx].cards;
-    else if (srcType === "foundation") srcPile = game.foundation[srcIdx].cards;
-    else return;
-
-    const moving =
-      srcType === "waste" || srcType === "foundation"
-        ? [srcPile[srcPile.length - 1]]
-        : srcPile.slice(idx);
-    const first = moving[0];
-
-    const tgtPile =
-      tgtType === "foundation"
-        ? game.foundation[tgtIdx].cards
-        : game.tableau[tgtIdx].cards;
-
-    const valid =
-      tgtType === "foundation"
-        ? canMoveToFoundation(first, tgtPile)
-        : canMoveToTableau(first, tgtPile);
-    if (!valid) return;
-
-    const ng: GameState = {
-      ...game,
-      waste: [...game.waste],
-      foundation: game.foundation.map((f) => ({ cards: [...f.cards] })),
-      tableau: game.tableau.map((t) => ({ cards: [...t.cards] })),
+  const won = isWon(game);
+  useEffect(() => {
+    if (!won) return;
+    recordGame();
+    if (daily)
+      setDailyFile((d) =>
+        recordDaily(d, daily, elapsedRef.current, game.moves)
+      );
+  }, [won]);
+  const stuck = stuckReason(game, past);
+
+  // the clock starts with the first move and stops once every card is home,
+  // and while the game is put aside for a race
+  const timerRunning = game.moves > 0 && !won && !racing;
+  // the bouncing cards start where the foundations sit on screen right now
+  useEffect(() => {
+    if (!won || !boardRef.current) {
+      setVictoryOrigin(null);
+      return;
+    }
+    const rect = boardRef.current.getBoundingClientRect();
+    setVictoryOrigin({ x: rect.left, y: rect.top });
+  }, [won]);
+
+  useEffect(() => {
+    if (!timerRunning) return;
+    const id = window.setInterval(() => setElapsed((e) => e + 1), 1000);
+    return () => window.clearInterval(id);
+  }, [timerRunning]);
+
+  const logEvent = (type: "undo" | "redo" | Move) => {
+    if (!log) return;
+    const at = Date.now() - log.dealtAt;
+    const e: GameEvent =
+      typeof type === "string"
+        ? { type, at }
+        : { type: "move", at, move: type };
+    setLog((l) => l && { ...l, events: [...l.events, e] });
+  };
+
+  // a game from before replays has no log to rebuild it from
+  const currentReplay = (): Replay | null =>
+    log && {
+      version: REPLAY_VERSION,
+      seed,
+      rules: game.rules,
+      startScore: log.startScore,
+      events: log.events,
     };
+  const watchReplay = (replay: Replay | null) => {
+    if (!replay) return;
+    const result = replayPositions(replay);
+    if (result.ok) setViewing({ replay, positions: result.positions });
+    else setProblem(`Couldn't replay this game: ${result.error}.`);
+  };
+  const importReplay = async (file: File) => {
+    try {
+      const result = parseReplay(await file.text());
+      if (result.ok)
+        setViewing({ replay: result.replay, positions: result.positions });
+      else setProblem(`Couldn't open that replay: ${result.error}.`);
+    } catch (e) {
+      setProblem(`Couldn't open that replay: ${(e as Error).message}.`);
+    }
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    logEvent("undo");
+    setAutoPlaying(null);
+    setFuture((f) => [game, ...f]);
+    setGame(past[past.length - 1]);
+    setPast((p) => p.slice(0, -1));
+  };
 
-    if (srcType === "waste") ng.waste.pop();
-    else if (srcType === "tableau") {
-      ng.tableau[srcIdx].cards.splice(idx);
-      const col = ng.tableau[srcIdx].cards;
-      if (col.length) col[col.length - 1].isFaceUp = true;
-    } else ng.foundation[srcIdx].cards.pop();
+  const redo = () => {
+    if (future.length === 0) return;
+    logEvent("redo");
+    setAutoPlaying(null);
+    setPast((p) => [...p, game]);
+    setGame(future[0]);
+    setFuture((f) => f.slice(1));
+  };
 
-    if (tgtType === "foundation") ng.foundation[tgtIdx].cards.push(first);
-    else ng.tableau[tgtIdx].cards.push(...moving);
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      // the game underneath a race is put aside, not played
+      if (e.target instanceof HTMLInputElement || racing) return;
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [game, past, future, racing]);
 
-    setGame(ng);
+  // every move goes through the engine, which refuses anything illegal
+  const play = (move: Move) => {
+    const result = checkedMove(game, move);
+    if ("broken" in result) setProblem(result.error);
+    if (!result.ok) return false;
+    commit(result.state);
+    logEvent(move);
+    return true;
   };
 
+  const handleStock = () => play({ type: "stock" });
+
+  const moveCards = (source: string, index: number, target: string) =>
+    play({ type: "move", source, index, target });
+
+  // one card per tick so the finish plays out instead of jumping
+  useEffect(() => {
+    if (!autoPlaying) return;
+    const move =
+      autoPlaying === "finish" ? nextFinishingMove(game) : nextSafeMove(game);
+    if (!move) {
+      setAutoPlaying(null);
+      return;
+    }
+    const id = window.setTimeout(() => {
+      moveCards(move.source, move.index, move.target);
+    }, AUTO_FINISH_STEP_MS);
+    return () => window.clearTimeout(id);
+  }, [autoPlaying, game]);
+
+  // taps and clicks are told apart by the pointer that made them, since a
+  // touch-screen laptop has a mouse as well
+  const pointerType = useRef("mouse");
+  useEffect(() => {
+    const note = (e: PointerEvent) => (pointerType.current = e.pointerType);
+    window.addEventListener("pointerdown", note, true);
+    return () => window.removeEventListener("pointerdown", note, true);
+  }, []);
+  const isTap = () => pointerType.current === "touch";
+
+  // a click plays the card where clickMoveFor picks, foundation first,
+  // bringing the cards on top along
   const handleCardClick = (card: CardType, source: string, index: number) => {
-    const [srcType, srcIdxS] = source.split("-");
-    const srcIdx = +srcIdxS;
-
-    if (srcType !== "foundation") {
-      for (let i = 0; i < game.foundation.length; i++) {
-        if (canMoveToFoundation(card, game.foundation[i].cards)) {
-          const ng: GameState = {
-            ...game,
-            waste: [...game.waste],
-            foundation: game.foundation.map((f) => ({ cards: [...f.cards] })),
-            tableau: game.tableau.map((t) => ({ cards: [...t.cards] })),
-          };
-          if (srcType === "waste") ng.waste.pop();
-          else {
-            ng.tableau[srcIdx].cards.splice(index, 1);
-            const col = ng.tableau[srcIdx].cards;
-            if (col.length) col[col.length - 1].isFaceUp = true;
-          }
-          ng.foundation[i].cards.push({ ...card });
-          setGame(ng);
-          return;
-        }
+    const move = clickMoveFor(game, source, index);
+    if (move) play(move);
+  };
+
+  const focusIndex = focusIndexFor(game, cursor, cursorIndex);
+
+  const moveCursor = (pile: string, wanted: number) => {
+    setCursor(pile);
+    setCursorIndex(wanted);
+    setAnnouncement(
+      describeSpot(game, pile, focusIndexFor(game, pile, wanted))
+    );
+  };
+
+  const sendToFoundation = (pile: string) => {
+    const cards = pileOf(game, pile);
+    const card = cards[cards.length - 1];
+    const move = foundationMoveFor(game, pile, cards.length - 1);
+    if (!card || !move) {
+      setAnnouncement(
+        card ? `${cardName(card)} can't go to a foundation` : "Nothing to move"
+      );
+      return;
+    }
+    play(move);
+    setAnnouncement(`${cardName(card)} to ${pileName(move.target)}`);
+  };
+
+  // the refusal is read out too, so a spent stock doesn't sound like a recycle
+  const drawAloud = () => {
+    const refused = moveError(game, { type: "stock" });
+    if (refused || !handleStock()) {
+      setAnnouncement(`Can't draw: ${refused ?? "the move was refused"}`);
+      return;
+    }
+    setAnnouncement(
+      game.stock.length ? "Drew from the stock" : "Recycled the waste"
+    );
+  };
+
+  const select = () => {
+    if (held) {
+      setHeld(null);
+      const moving = pileOf(game, held.source)[held.index];
+      if (cursor === held.source) {
+        setAnnouncement(`Put ${cardName(moving)} back`);
+      } else if (
+        cursor.startsWith("stock") ||
+        cursor.startsWith("waste") ||
+        !moveCards(held.source, held.index, cursor)
+      ) {
+        setAnnouncement(
+          `Can't move ${cardName(moving)} to ${pileName(cursor)}`
+        );
+      } else {
+        setAnnouncement(`Moved ${cardName(moving)} to ${pileName(cursor)}`);
       }
+      return;
+    }
+    if (cursor === "stock") {
+      drawAloud();
+      return;
+    }
+    const cards = pileOf(game, cursor);
+    const card = cards[focusIndex];
+    if (!card || !card.isFaceUp) {
+      setAnnouncement("Nothing to pick up here");
+      return;
     }
+    const count = cards.length - focusIndex;
+    setHeld({ source: cursor, index: focusIndex });
+    setAnnouncement(
+      `Picked up ${cardName(card)}${
+        count > 1 ? ` and ${count - 1} more` : ""
+      }. Move to a pile and press Space to drop.`
+    );
+  };
 
-    for (let i = 0; i < game.tableau.length; i++) {
-      if (canMoveToTableau(card, game.tableau[i].cards)) {
-        const ng: GameState = {
-          ...game,
-          waste: [...game.waste],
-          foundation: game.foundation.map((f) => ({ cards: [...f.cards] })),
-          tableau: game.tableau.map((t) => ({ cards: [...t.cards] })),
-        };
-        if (srcType === "waste") ng.waste.pop();
-        else if (srcType === "tableau") {
-          ng.tableau[srcIdx].cards.splice(index);
-          const col = ng.tableau[srcIdx].cards;
-          if (col.length) col[col.length - 1].isFaceUp = true;
-        } else {
-          ng.foundation[srcIdx].cards.pop();
-        }
-        ng.tableau[i].cards.push(
-          ...(srcType === "waste"
-            ? [card]
-            : srcType === "foundation"
-            ? [card]
-            : game.tableau[srcIdx].cards
-                .slice(index)
-                .map((c) => ({ ...c, isFaceUp: true })))
+  const handleBoardKey = (e: React.KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    switch (e.key) {
+      case "ArrowLeft":
+      case "ArrowRight":
+      case "ArrowUp":
+      case "ArrowDown": {
+        const to = stepCursor(
+          game,
+          cursor,
+          focusIndex,
+          e.key.slice(5).toLowerCase() as Direction
         );
-        setGame(ng);
-        return;
+        if (to) moveCursor(...to);
+        break;
       }
+      case " ":
+      case "Enter":
+        select();
+        break;
+      case "Escape":
+        if (!held) return;
+        setHeld(null);
+        setAnnouncement("Dropped nothing, cards put back");
+        break;
+      case "d":
+        drawAloud();
+        break;
+      case "f":
+        sendToFoundation(cursor === "stock" ? "waste" : cursor);
+        break;
+      default:
+        return;
     }
+    e.preventDefault();
   };
 
-  const Pile: React.FC<{ index: number; type: "foundation" | "tableau" }> = ({
-    index,
-    type,
-  }) => {
-    const [{ isOver }, drop] = useDrop(
-      () => ({
-        accept: "CARD",
-        drop: (item: any) =>
-          moveCards(
-            item.cards[0],
-            item.source,
-            item.startIndex,
-            `${type}-${index}`
-          ),
-        collect: (m) => ({ isOver: m.isOver() }),
-      }),
-      [game]
-    );
+  // on touch screens a tap picks a card (and everything on it) up and a tap
+  // on another pile drops it there; tapping it again plays it like a click
+  const tapCard = (card: CardType, source: string, index: number) => {
+    if (!held) {
+      setHeld({ source, index });
+      return;
+    }
+    setHeld(null);
+    if (held.source === source && held.index === index)
+      handleCardClick(card, source, index);
+    else if (held.source !== source) tapPile(source);
+  };
+  const tapPile = (target: string) => {
+    if (!held) return;
+    setHeld(null);
+    const moving = pileOf(game, held.source)[held.index];
+    if (!moveCards(held.source, held.index, target))
+      setAnnouncement(`Can't move ${cardName(moving)} to ${pileName(target)}`);
+  };
+  const onCardClick = (card: CardType, source: string, index: number) =>
+    (isTap() ? tapCard : handleCardClick)(card, source, index);
 
-    const cards =
-      type === "foundation"
-        ? game.foundation[index].cards.slice(-1)
-        : game.tableau[index].cards;
+  // anything else changing the board puts held cards back
+  useEffect(() => setHeld(null), [game]);
 
-    const spacing =
-      type === "tableau" && cards.length > 1
-        ? Math.min(CARD_OFFSET, (ROW_HEIGHT - CARD_HEIGHT) / (cards.length - 1))
-        : 0;
+  // the board is redrawn from scratch after a move, then every card that
+  // changed place is slid there from where it was, cards that were turned
+  // over spin round, and a fresh deal flies out of the stock one by one
+  const lastSpots = useRef<CardSpot[]>([]);
+  const lastGame = useRef(game);
+  const justDealt = useRef(false);
+  const justDropped = useRef(false);
+  useLayoutEffect(() => {
+    const board = boardRef.current;
+    if (!board) return;
+    const prev = lastGame.current;
+    const before = lastSpots.current;
+    const spots = measureCards(board);
+    lastSpots.current = spots.map(({ key, x, y, faceUp }) => ({
+      key,
+      x,
+      y,
+      faceUp,
+    }));
+    lastGame.current = game;
+    const dealt = justDealt.current;
+    const dropped = justDropped.current;
+    justDealt.current = justDropped.current = false;
+    const ms = ANIMATION_MS[prefs.animation];
+    if (!ms || prev === game) return;
 
-    return (
-      <div
-        ref={drop}
-        style={{
-          width: CARD_WIDTH,
-          height: type === "foundation" ? CARD_HEIGHT : ROW_HEIGHT,
-          border: "1px dashed gray",
-          backgroundColor: isOver ? "lightgreen" : "white",
-          position: "relative",
-          overflow: "visible",
-        }}
-      >
-        {cards.map((c, i) => (
-          <Card
-            key={`${c.suit}-${c.rank}-${i}-${type}`}
-            card={c}
-            index={i}
-            spacing={spacing}
-            isDraggable={c.isFaceUp}
-            source={`${type}-${index}`}
-            cards={cards}
-            onClick={handleCardClick}
-          />
-        ))}
-      </div>
-    );
-  };
+    const pileSpot = (id: string) => {
+      const el = board.querySelector<HTMLElement>(`[data-pile="${id}"]`);
+      if (!el) return { x: 0, y: 0 };
+      const r = el.getBoundingClientRect();
+      const origin = board.getBoundingClientRect();
+      return { x: r.left - origin.left, y: r.top - origin.top };
+    };
+    const stock = pileSpot("stock");
+
+    if (dealt) {
+      // row by row across the columns, the way cards are dealt by hand
+      [...spots]
+        .sort((a, b) => a.y - b.y || a.x - b.x)
+        .forEach((s, i) =>
+          slide(s.el, stock.x - s.x, stock.y - s.y, ms, (i * ms) / 6)
+        );
+      return;
+    }
+
+    const fromStock = new Set(prev.stock.map((c) => `${c.suit}-${c.rank}`));
+    matchSpots(before, spots).forEach((b, i) => {
+      const s = spots[i];
+      if (!b) {
+        if (fromStock.has(s.key)) slide(s.el, stock.x - s.x, stock.y - s.y, ms);
+      } else if (!b.faceUp && s.faceUp) {
+        s.el.animate([{ transform: "rotateY(90deg)" }, { transform: "none" }], {
+          duration: ms,
+          easing: "ease-out",
+        });
+      } else if ((b.x !== s.x || b.y !== s.y) && !dropped) {
+        slide(s.el, b.x - s.x, b.y - s.y, ms);
+      }
+    });
+
+    // recycling gathers the waste back up into the stock
+    if (game.recycles > prev.recycles) {
+      const el = board.querySelector<HTMLElement>('[data-pile="stock"]');
+      const waste = pileSpot("waste");
+      if (el) slide(el, waste.x - stock.x, waste.y - stock.y, ms);
+    }
+  }, [game]);
 
   return (
-    <DndProvider backend={HTML5Backend}>
-      <CustomDragLayer />
-      <div style={{ padding: "0 20px 20px", overflowX: "hidden" }}>
-        <h1>Klondike Solitaire</h1>
+    <DndProvider backend={DND_BACKEND} options={DND_OPTIONS}>
+      <CardLookContext.Provider value={look}>
+        <CustomDragLayer />
+        <style>
+          {`@keyframes hint-pulse {
+          0%, 100% { box-shadow: 0 0 0 0 rgba(255, 165, 0, 0); }
+          50% { box-shadow: 0 0 6px 4px rgba(255, 165, 0, 0.9); }
+        }`}
+        </style>
         <div
-          ref={boardRef}
           style={{
-            width: BOARD_WIDTH,
-            transform: `scale(${scale})`,
-            transformOrigin: "top left",
+            padding: "0 20px 20px",
+            overflowX: "hidden",
+            minHeight: "100vh",
+            background: table.background,
+            color: table.text,
           }}
         >
-          <div
-            style={{
-              display: "grid",
-              gridTemplateColumns: `repeat(7, ${CARD_WIDTH}px)`,
-              gridTemplateRows: `auto ${ROW_HEIGHT}px`,
-              gap: GAP,
-            }}
-          >
+          <h1>
+            Solitaire{" "}
+            {racing ? (
+              "race"
+            ) : (
+              <>
+                <select
+                  aria-label="Variant"
+                  value={rules.variant}
+                  onChange={(e) => {
+                    const id = e.target.value as VariantId;
+                    // vegas is a klondike game
+                    const scoring =
+                      id === "klondike" ? rules.scoring : "standard";
+                    if (confirmDiscard())
+                      deal(seed, { ...rules, variant: id, scoring });
+                  }}
+                  style={{ fontSize: "0.6em", verticalAlign: "middle" }}
+                >
+                  {(Object.keys(VARIANTS) as VariantId[]).map((id) => (
+                    <option key={id} value={id}>
+                      {VARIANTS[id].name}
+                    </option>
+                  ))}
+                </select>{" "}
+                <button
+                  onClick={() => setShowStats(true)}
+                  style={{ verticalAlign: "middle" }}
+                >
+                  Statistics
+                </button>{" "}
+                <button
+                  onClick={() => setShowCalendar(true)}
+                  style={{ verticalAlign: "middle" }}
+                >
+                  Daily deal
+                </button>{" "}
+                <button
+                  onClick={() => watchReplay(currentReplay())}
+                  disabled={!log?.events.length}
+                  style={{ verticalAlign: "middle" }}
+                >
+                  Replay
+                </button>{" "}
+                <button
+                  onClick={() => setRacing(true)}
+                  style={{ verticalAlign: "middle" }}
+                >
+                  Two-player race
+                </button>{" "}
+                <label style={{ fontSize: "0.5em", verticalAlign: "middle" }}>
+                  Open replay{" "}
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = "";
+                      if (file) importReplay(file);
+                    }}
+                  />
+                </label>
+              </>
+            )}
+          </h1>
+          {problem && (
             <div
-              onClick={handleStock}
               style={{
-                gridColumn: 1,
-                gridRow: 1,
-                width: CARD_WIDTH,
-                height: CARD_HEIGHT,
-                position: "relative",
-                cursor: "pointer",
                 display: "flex",
                 alignItems: "center",
-                justifyContent: "center",
+                gap: 8,
+                padding: "6px 12px",
+                marginBottom: 12,
+                width: "fit-content",
+                background: "#fee",
+                color: "black",
+                borderRadius: 5,
               }}
             >
-              {game.stock.length > 0 ? (
+              <span>{problem}</span>
+              <button onClick={() => setProblem(null)}>OK</button>
+            </div>
+          )}
+          {racing ? (
+            <RaceMode
+              rules={rules}
+              onLeave={() => setRacing(false)}
+              onRefused={setProblem}
+            />
+          ) : (
+            <>
+              <div
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 8,
+                  marginBottom: 12,
+                }}
+              >
+                <span>
+                  {daily ? (
+                    <>
+                      Daily deal, <strong>{formatDate(daily)}</strong>
+                    </>
+                  ) : (
+                    <>
+                      Deal <strong>#{seed}</strong>
+                    </>
+                  )}
+                </span>
+                <input
+                  value={seedInput}
+                  onChange={(e) => setSeedInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    const s = parseSeed(seedInput);
+                    if (e.key === "Enter" && s !== null && confirmDiscard())
+                      deal(s);
+                  }}
+                  placeholder="seed"
+                  style={{ width: 110 }}
+                />
+                <button
+                  onClick={() =>
+                    confirmDiscard() && deal(parseSeed(seedInput)!)
+                  }
+                  disabled={parseSeed(seedInput) === null}
+                >
+                  Play seed
+                </button>
+                <button onClick={dealRandom} disabled={dealing}>
+                  {dealing ? "Finding a winnable deal…" : "New game"}
+                </button>
+                <button
+                  onClick={undo}
+                  disabled={past.length === 0}
+                  title="Undo (Ctrl+Z)"
+                >
+                  Undo
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={future.length === 0}
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  Redo
+                </button>
+              </div>
+              <div
+                style={{
+                  display: "flex",
+                  flexWrap: "wrap",
+                  alignItems: "center",
+                  gap: 12,
+                  marginBottom: 12,
+                }}
+              >
+                <strong>Appearance</strong>
+                <label>
+                  Animations{" "}
+                  <select
+                    value={prefs.animation}
+                    onChange={(e) =>
+                      setPrefs({
+                        ...prefs,
+                        animation: e.target.value as AnimationSpeed,
+                      })
+                    }
+                  >
+                    <option value="off">Off</option>
+                    <option value="slow">Slow</option>
+                    <option value="normal">Normal</option>
+                    <option value="fast">Fast</option>
+                  </select>
+                </label>
+                <label>
+                  Card back{" "}
+                  <select
+                    value={prefs.back}
+                    onChange={(e) =>
+                      setPrefs({ ...prefs, back: e.target.value as CardBackId })
+                    }
+                  >
+                    {(Object.keys(CARD_BACKS) as CardBackId[]).map((id) => (
+                      <option key={id} value={id}>
+                        {CARD_BACKS[id].name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Faces{" "}
+                  <select
+                    value={prefs.face}
+                    onChange={(e) =>
+                      setPrefs({ ...prefs, face: e.target.value as FaceId })
+                    }
+                  >
+                    {(Object.keys(FACES) as FaceId[]).map((id) => (
+                      <option key={id} value={id}>
+                        {FACES[id].name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Table{" "}
+                  <select
+                    value={prefs.table}
+                    onChange={(e) =>
+                      setPrefs({ ...prefs, table: e.target.value as TableId })
+                    }
+                  >
+                    {(Object.keys(TABLES) as TableId[]).map((id) => (
+                      <option key={id} value={id}>
+                        {TABLES[id].name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label>
+                  Card size{" "}
+                  <select
+                    value={prefs.cardSize}
+                    onChange={(e) =>
+                      setPrefs({
+                        ...prefs,
+                        cardSize: e.target.value as CardSizeId,
+                      })
+                    }
+                  >
+                    {(Object.keys(CARD_SIZES) as CardSizeId[]).map((id) => (
+                      <option key={id} value={id}>
+                        {CARD_SIZES[id].name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {rules.variant === "klondike" && (
                 <div
                   style={{
-                    width: "100%",
-                    height: "100%",
-                    backgroundColor: "navy",
-                    border: "1px solid black",
-                    borderRadius: 5,
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 12,
+                    marginBottom: 12,
                   }}
-                />
-              ) : (
-                <span>Reset</span>
+                >
+                  <strong>Rules</strong>
+                  <label>
+                    Draw{" "}
+                    <select
+                      value={rules.drawCount}
+                      onChange={(e) =>
+                        confirmDiscard() &&
+                        deal(seed, {
+                          ...rules,
+                          drawCount: +e.target.value as Rules["drawCount"],
+                        })
+                      }
+                    >
+                      <option value={1}>1</option>
+                      <option value={3}>3</option>
+                    </select>
+                  </label>
+                  <label>
+                    Passes{" "}
+                    <select
+                      value={rules.passLimit ?? ""}
+                      onChange={(e) =>
+                        confirmDiscard() &&
+                        deal(seed, {
+                          ...rules,
+                          passLimit: e.target.value ? +e.target.value : null,
+                        })
+                      }
+                    >
+                      {PASS_LIMITS.map((n) => (
+                        <option key={n ?? "unlimited"} value={n ?? ""}>
+                          {n === null ? "Unlimited" : n}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label>
+                    Scoring{" "}
+                    <select
+                      value={rules.scoring}
+                      onChange={(e) =>
+                        confirmDiscard() &&
+                        deal(seed, {
+                          ...rules,
+                          scoring: e.target.value as ScoringMode,
+                        })
+                      }
+                    >
+                      <option value="standard">Standard</option>
+                      <option value="vegas">Vegas</option>
+                    </select>
+                  </label>
+                  {rules.scoring === "vegas" && (
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={carryVegas}
+                        onChange={(e) => setCarryVegas(e.target.checked)}
+                      />{" "}
+                      Carry balance between deals
+                    </label>
+                  )}
+                  <span style={{ color: "gray" }}>changing rules re-deals</span>
+                </div>
               )}
-            </div>
-
-            <div
-              style={{
-                gridColumn: 2,
-                gridRow: 1,
-                width: CARD_WIDTH,
-                height: CARD_HEIGHT,
-                position: "relative",
-              }}
-            >
-              {game.waste.length > 0 && (
-                <Card
-                  card={game.waste[game.waste.length - 1]}
-                  index={game.waste.length - 1}
-                  spacing={0}
-                  isDraggable
-                  source="waste"
-                  cards={game.waste}
-                  onClick={handleCardClick}
-                />
+              {rules.variant === "klondike" && (
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 12,
+                    marginBottom: 12,
+                  }}
+                >
+                  <button
+                    onClick={analyze}
+                    disabled={!!currentAnalysis && !currentAnalysis.result}
+                  >
+                    Can I still win?
+                  </button>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={winnableOnly}
+                      onChange={(e) => setWinnableOnly(e.target.checked)}
+                    />{" "}
+                    Winnable deals only
+                  </label>
+                  {currentAnalysis && (
+                    <span>
+                      {!currentAnalysis.result
+                        ? "Solving…"
+                        : currentAnalysis.result.status === "winnable"
+                        ? `Winnable in ${currentAnalysis.result.moves.length} moves`
+                        : currentAnalysis.result.status === "stuck"
+                        ? "No way to win from here"
+                        : `Gave up after ${currentAnalysis.result.nodes} positions`}
+                    </span>
+                  )}
+                  {notice && (
+                    <span style={{ color: "firebrick" }}>{notice}</span>
+                  )}
+                </div>
               )}
-            </div>
-
-            <div style={{ gridColumn: 3, gridRow: 1 }} />
-
-            {game.foundation.map((_, i) => (
-              <div key={i} style={{ gridColumn: 4 + i, gridRow: 1 }}>
-                <Pile index={i} type="foundation" />
+              <div style={{ marginBottom: 12 }}>
+                <button
+                  onClick={() => setHint({ game, hints: findHints(game) })}
+                  disabled={!!currentHints}
+                >
+                  Hint
+                </button>
+                {canAutoFinish(game) && (
+                  <button
+                    onClick={() => setAutoPlaying("finish")}
+                    disabled={!!autoPlaying}
+                    style={{ marginLeft: 8 }}
+                  >
+                    Auto-finish
+                  </button>
+                )}
+                {currentHints && currentHints.length === 0 && (
+                  <span style={{ marginLeft: 8 }}>No legal moves left</span>
+                )}
+                {currentHints && currentHints.length > 0 && (
+                  <ol style={{ margin: "8px 0 0" }}>
+                    {currentHints.map((h, i) => (
+                      <li
+                        key={`${h.source}-${h.index}-${h.target}`}
+                        style={{ fontWeight: i === 0 ? "bold" : "normal" }}
+                      >
+                        {describeHint(game, h)}
+                      </li>
+                    ))}
+                  </ol>
+                )}
               </div>
-            ))}
-
-            {game.tableau.map((_, i) => (
-              <div key={i} style={{ gridColumn: 1 + i, gridRow: 2 }}>
-                <Pile index={i} type="tableau" />
+              {currentAnalysis?.result?.status === "winnable" && (
+                <details style={{ marginBottom: 12 }}>
+                  <summary>Show winning moves</summary>
+                  <ol>
+                    {describeSolution(game, currentAnalysis.result.moves).map(
+                      (line, i) => (
+                        <li key={i}>{line}</li>
+                      )
+                    )}
+                  </ol>
+                </details>
+              )}
+              <div
+                style={{
+                  display: "flex",
+                  gap: 24,
+                  padding: "6px 12px",
+                  marginBottom: 12,
+                  width: "fit-content",
+                  background: "#eef",
+                  borderRadius: 5,
+                }}
+              >
+                <span>Time {formatTime(elapsed)}</span>
+                <span>Moves {game.moves}</span>
+                <span>
+                  {game.rules.scoring === "vegas" ? "Balance" : "Score"}{" "}
+                  {formatScore(game)}
+                </span>
               </div>
-            ))}
-          </div>
+              {stuck && (
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: 8,
+                    padding: "6px 12px",
+                    marginBottom: 12,
+                    width: "fit-content",
+                    background: "#fee",
+                    borderRadius: 5,
+                  }}
+                >
+                  <span>
+                    {stuck === "no-moves"
+                      ? "No legal moves remain."
+                      : "You've been round the whole stock without a move."}
+                  </span>
+                  <button onClick={dealRandom} disabled={dealing}>
+                    New deal
+                  </button>
+                  <button onClick={undo} disabled={past.length === 0}>
+                    Undo
+                  </button>
+                </div>
+              )}
+              <div aria-live="polite" style={VISUALLY_HIDDEN}>
+                {announcement}
+              </div>
+              <div
+                ref={boardRef}
+                tabIndex={0}
+                role="application"
+                aria-label="Solitaire board. Arrow keys move, Space picks up and drops, D draws, F sends to a foundation, Escape cancels."
+                onKeyDown={handleBoardKey}
+                onFocus={() => {
+                  setBoardFocused(true);
+                  setAnnouncement(describeSpot(game, cursor, focusIndex));
+                }}
+                onBlur={() => setBoardFocused(false)}
+                // a long press opens the context menu on phones, and there
+                // that's the start of a drag
+                onContextMenu={(e) => {
+                  if (isTap()) return;
+                  e.preventDefault();
+                  setAutoPlaying("safe");
+                }}
+                style={{
+                  width: boardWidth(layout, size),
+                  outline: "none",
+                }}
+              >
+                <Board
+                  game={game}
+                  onStock={handleStock}
+                  onDrop={(source, index, target) => {
+                    // the cards are already where they were let go
+                    if (moveCards(source, index, target))
+                      justDropped.current = true;
+                  }}
+                  onCardClick={onCardClick}
+                  onPileClick={(pile) => isTap() && tapPile(pile)}
+                  hint={topHint}
+                  cursor={
+                    boardFocused ? { pile: cursor, index: focusIndex } : null
+                  }
+                  held={held}
+                />
+              </div>
+            </>
+          )}
         </div>
-      </div>
+        {won && victoryOrigin && (
+          <VictoryAnimation
+            foundation={game.foundation}
+            layout={layout}
+            origin={victoryOrigin}
+            size={size}
+            colors={look.face.colors}
+          />
+        )}
+        {won && !resultDismissed && !racing && (
+          <div
+            style={{
+              position: "fixed",
+              left: "50%",
+              top: "40%",
+              transform: "translate(-50%, -50%)",
+              padding: "20px 32px",
+              background: "white",
+              border: "1px solid black",
+              borderRadius: 8,
+              boxShadow: "0 4px 16px rgba(0, 0, 0, 0.3)",
+              textAlign: "center",
+              zIndex: 200,
+            }}
+          >
+            <h2 style={{ marginTop: 0 }}>
+              {daily ? `You won the ${formatDate(daily)} deal!` : "You won!"}
+            </h2>
+            <p>
+              Time {formatTime(elapsed)} · Moves {game.moves} ·{" "}
+              {game.rules.scoring === "vegas" ? "Balance" : "Score"}{" "}
+              {formatScore(game)}
+            </p>
+            <button onClick={dealRandom} disabled={dealing}>
+              New deal
+            </button>{" "}
+            {log && (
+              <>
+                <button onClick={() => watchReplay(currentReplay())}>
+                  Watch replay
+                </button>{" "}
+              </>
+            )}
+            <button onClick={() => setResultDismissed(true)}>Close</button>
+          </div>
+        )}
+        {showStats && (
+          <StatsModal
+            stats={stats}
+            unreadable={statsUnreadable}
+            onReset={() => {
+              if (window.confirm("Reset all statistics?"))
+                setStats(emptyStats());
+            }}
+            onClose={() => setShowStats(false)}
+          />
+        )}
+        {showCalendar && (
+          <DailyCalendar
+            daily={dailyFile}
+            today={today}
+            onPlay={playDaily}
+            onClose={() => setShowCalendar(false)}
+          />
+        )}
+        {viewing && (
+          <ReplayViewer
+            replay={viewing.replay}
+            positions={viewing.positions}
+            onClose={() => setViewing(null)}
+          />
+        )}
+      </CardLookContext.Provider>
     </DndProvider>
   );
 };
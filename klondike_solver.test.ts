@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  CardType,
+  DEFAULT_RULES,
+  GameState,
+  Rank,
+  Suit,
+  applyMoves,
+  initializeGame,
+  isWon,
+} from "./klondike_engine";
+import { solve } from "./klondike_solver";
+
+const SUIT_LETTERS: Record<string, Suit> = {
+  H: "HEARTS",
+  D: "DIAMONDS",
+  C: "CLUBS",
+  S: "SPADES",
+};
+
+// "QH JS 10D?" reads bottom to top; a trailing ? is a face-down card
+const cards = (text: string): CardType[] =>
+  text
+    .split(" ")
+    .filter(Boolean)
+    .map((code) => {
+      const isFaceUp = !code.endsWith("?");
+      const c = isFaceUp ? code : code.slice(0, -1);
+      return {
+        rank: c.slice(0, -1) as Rank,
+        suit: SUIT_LETTERS[c[c.length - 1]],
+        isFaceUp,
+      };
+    });
+
+const klondike = (foundation: string[], tableau: string[]): GameState => ({
+  ...initializeGame(1, DEFAULT_RULES),
+  stock: [],
+  waste: [],
+  foundation: foundation.map((f) => ({ cards: cards(f) })),
+  tableau: tableau.map((t) => ({ cards: cards(t) })),
+});
+
+const wins = (g: GameState, result: ReturnType<typeof solve>) => {
+  const played = applyMoves(g, result.moves);
+  return played.ok && isWon(played.state);
+};
+
+describe("solve", () => {
+  it("calls a position with no moves stuck", () => {
+    const result = solve(klondike(["", "", "", ""], ["2S"]));
+    expect(result).toEqual({ status: "stuck", moves: [], nodes: 0 });
+  });
+
+  // the only way out splits a run whose card above has nowhere to go
+  it("splits a run to free a card wanted on another column", () => {
+    const g = klondike(
+      ["AH 2H 3H 4H 5H 6H 7H", "AD 2D 3D 4D", "AC 2C 3C 4C 5C", "AS 2S 3S 4S"],
+      [
+        "7S? 5S? 6C? 5D? QH? 6D",
+        "8H 7C 6S",
+        "JS? 10H? 9S? 7D",
+        "KS",
+        "KH QC JD 10C 9D 8C",
+        "KD QS JH 10S 9H 8S",
+        "KC QD JC 10D 9C 8D",
+      ]
+    );
+    const result = solve(g, 200000);
+    expect(result.status).toBe("winnable");
+    expect(wins(g, result)).toBe(true);
+  });
+});
@@ -0,0 +1,301 @@
+// depth-first klondike solver, run off the main thread by klondike_solver.worker.ts
+
+import {
+  CardType,
+  GameState,
+  Move,
+  RANKS,
+  canRecycle,
+  applyMoves,
+  canMoveToFoundation,
+  canMoveToTableau,
+  isSafeToFoundation,
+  isWon,
+  pileOf,
+  pileName,
+  cardName,
+} from "./klondike_engine";
+
+export interface SolveResult {
+  status: "winnable" | "stuck" | "gave-up";
+  moves: Move[];
+  nodes: number;
+}
+
+export interface SolveRequest {
+  id: number;
+  state: GameState;
+  nodeLimit?: number;
+}
+export interface SolveResponse {
+  id: number;
+  result: SolveResult;
+}
+
+export const DEFAULT_NODE_LIMIT = 50000;
+
+// the solver only ever plays moves it generated as legal, so a refusal
+// here is a bug rather than a dead end
+const play = (g: GameState, moves: Move[]) => {
+  const result = applyMoves(g, moves);
+  if (!result.ok)
+    throw new Error(`solver made an illegal move: ${result.error}`);
+  return result.state;
+};
+
+// plays every safe foundation move, returning the moves and where they lead
+const autoPlay = (start: GameState) => {
+  let state = start;
+  const moves: Move[] = [];
+  for (let found = true; found; ) {
+    found = false;
+    const sources = ["waste", ...state.tableau.map((_, i) => `tableau-${i}`)];
+    for (const source of sources) {
+      const pile = pileOf(state, source);
+      const card = pile[pile.length - 1];
+      if (!card || !isSafeToFoundation(state, card)) continue;
+      const f = state.foundation.findIndex((p) =>
+        canMoveToFoundation(card, p.cards)
+      );
+      if (f === -1) continue;
+      const move: Move = {
+        type: "move",
+        source,
+        index: pile.length - 1,
+        target: `foundation-${f}`,
+      };
+      state = play(state, [move]);
+      moves.push(move);
+      found = true;
+    }
+  }
+  return { state, moves };
+};
+
+// foundations are implied by what is left elsewhere, and column order
+// doesn't change whether a position can be won. drawing one at a time with
+// unlimited passes reaches every stock card, so only which are left matters
+const code = (c: CardType) =>
+  `${RANKS.indexOf(c.rank).toString(16)}${c.suit[0]}${c.isFaceUp ? "" : "?"}`;
+const stateKey = (g: GameState) => {
+  const tableau = g.tableau
+    .map((t) => t.cards.map(code).join(""))
+    .sort()
+    .join("|");
+  if (g.rules.drawCount === 1 && g.rules.passLimit === null) {
+    const stock = [...g.stock, ...g.waste].map((c) =>
+      code({ ...c, isFaceUp: true })
+    );
+    return `${tableau}/${stock.sort().join("")}`;
+  }
+  return [
+    tableau,
+    g.stock.map(code).join(""),
+    g.waste.map(code).join(""),
+    g.rules.passLimit === null ? "" : g.recycles,
+  ].join("/");
+};
+
+// every waste card the stock can still bring up, with the draws it takes;
+// playing one is a single search step so cycling the stock never is
+const reachableWaste = (g: GameState) => {
+  const reachable: { draws: number; index: number; card: CardType }[] = [];
+  const seen = new Set<string>();
+  let stock = [...g.stock];
+  let waste = [...g.waste];
+  let recycles = g.recycles;
+  for (let draws = 1; ; draws++) {
+    if (stock.length === 0) {
+      if (!waste.length || !canRecycle({ ...g, recycles })) break;
+      stock = waste.reverse();
+      waste = [];
+      recycles++;
+    } else {
+      for (let i = 0; i < g.rules.drawCount && stock.length; i++)
+        waste.push(stock.pop()!);
+    }
+    // with no cards played the deck order is fixed, so this is the position
+    const key = `${stock.length}/${g.rules.passLimit === null ? 0 : recycles}`;
+    if (seen.has(key)) break;
+    seen.add(key);
+    const card = waste[waste.length - 1];
+    if (card && !reachable.some((r) => r.card === card))
+      reachable.push({ draws, index: waste.length - 1, card });
+  }
+  return reachable.filter((r) => r.card !== g.waste[g.waste.length - 1]);
+};
+
+// legal moves worth trying, most promising first; each one is a short run
+// of moves, since reaching a stock card takes some draws before the play
+const candidateMoves = (g: GameState): Move[][] => {
+  const toFoundation: Move[][] = [];
+  const revealing: Move[][] = [];
+  const fromWaste: Move[][] = [];
+  const fromStock: Move[][] = [];
+  const shuffling: Move[][] = [];
+  const splitting: Move[][] = [];
+  const fromFoundation: Move[][] = [];
+
+  const foundationTarget = (card: CardType) => {
+    const i = g.foundation.findIndex((f) => canMoveToFoundation(card, f.cards));
+    return i === -1 ? null : `foundation-${i}`;
+  };
+  const tableauTargets = (card: CardType, except: number) => {
+    const targets: string[] = [];
+    let emptySeen = false;
+    g.tableau.forEach((t, i) => {
+      if (i === except || !canMoveToTableau(card, t.cards)) return;
+      // every empty column is as good as any other
+      if (t.cards.length === 0) {
+        if (emptySeen) return;
+        emptySeen = true;
+      }
+      targets.push(`tableau-${i}`);
+    });
+    return targets;
+  };
+
+  if (g.waste.length) {
+    const card = g.waste[g.waste.length - 1];
+    const index = g.waste.length - 1;
+    const f = foundationTarget(card);
+    if (f)
+      toFoundation.push([{ type: "move", source: "waste", index, target: f }]);
+    tableauTargets(card, -1).forEach((target) =>
+      fromWaste.push([{ type: "move", source: "waste", index, target }])
+    );
+  }
+
+  reachableWaste(g).forEach(({ draws, index, card }) => {
+    const drawing: Move[] = Array.from({ length: draws }, () => ({
+      type: "stock",
+    }));
+    const f = foundationTarget(card);
+    const targets = f
+      ? [f, ...tableauTargets(card, -1)]
+      : tableauTargets(card, -1);
+    targets.forEach((target) =>
+      fromStock.push([
+        ...drawing,
+        { type: "move", source: "waste", index, target },
+      ])
+    );
+  });
+
+  g.tableau.forEach((t, ti) => {
+    const col = t.cards;
+    if (col.length === 0) return;
+    const source = `tableau-${ti}`;
+    const top = col.length - 1;
+    const f = foundationTarget(col[top]);
+    if (f) toFoundation.push([{ type: "move", source, index: top, target: f }]);
+
+    const firstUp = col.findIndex((c) => c.isFaceUp);
+    if (firstUp === -1) return;
+    for (let i = firstUp; i < col.length; i++) {
+      tableauTargets(col[i], ti).forEach((target) => {
+        // a king already at the bottom of a column gains nothing from an empty one
+        if (i === 0 && g.tableau[+target.split("-")[1]].cards.length === 0)
+          return;
+        const move: Move = { type: "move", source, index: i, target };
+        if (i === firstUp && i > 0) revealing.push([move]);
+        else if (i === firstUp || foundationTarget(col[i - 1]))
+          shuffling.push([move]);
+        // splitting a run for nothing straight away is tried last, but it
+        // can't be left out: the card it uncovers may be wanted elsewhere
+        else splitting.push([move]);
+      });
+    }
+  });
+
+  g.foundation.forEach((f, fi) => {
+    if (f.cards.length === 0) return;
+    const index = f.cards.length - 1;
+    tableauTargets(f.cards[index], -1).forEach((target) =>
+      fromFoundation.push([
+        { type: "move", source: `foundation-${fi}`, index, target },
+      ])
+    );
+  });
+
+  return [
+    ...toFoundation,
+    ...revealing,
+    ...fromWaste,
+    ...fromStock,
+    ...shuffling,
+    ...splitting,
+    ...fromFoundation,
+  ];
+};
+
+export const solve = (
+  start: GameState,
+  nodeLimit = DEFAULT_NODE_LIMIT
+): SolveResult => {
+  // each path entry is a chosen step followed by the safe moves it unlocked
+  const first = autoPlay(start);
+  const path: Move[][] = [first.moves];
+  let nodes = 0;
+  const won = () => ({
+    status: "winnable" as const,
+    moves: path.flat(),
+    nodes,
+  });
+  if (isWon(first.state)) return won();
+
+  // explicit stack: winning lines can run to a couple of hundred steps
+  const seen = new Set<string>([stateKey(first.state)]);
+  const stack = [
+    { state: first.state, moves: candidateMoves(first.state), next: 0 },
+  ];
+
+  while (stack.length) {
+    const frame = stack[stack.length - 1];
+    if (frame.next >= frame.moves.length) {
+      stack.pop();
+      path.pop();
+      continue;
+    }
+    const steps = frame.moves[frame.next++];
+    const { state, moves } = autoPlay(play(frame.state, steps));
+    path.push([...steps, ...moves]);
+    if (isWon(state)) return won();
+
+    const key = stateKey(state);
+    if (seen.has(key) || ++nodes > nodeLimit) {
+      path.pop();
+      if (nodes > nodeLimit) return { status: "gave-up", moves: [], nodes };
+      continue;
+    }
+    seen.add(key);
+    stack.push({ state, moves: candidateMoves(state), next: 0 });
+  }
+  return { status: "stuck", moves: [], nodes };
+};
+
+const describeMove = (g: GameState, m: Move) => {
+  if (m.type === "stock") return g.stock.length ? "draw" : "recycle the waste";
+  const card = pileOf(g, m.source)[m.index];
+  return `${cardName(card)}: ${pileName(m.source)} → ${pileName(m.target)}`;
+};
+
+// one line per move, with runs of draws folded together
+export const describeSolution = (start: GameState, moves: Move[]) => {
+  const lines: string[] = [];
+  let g = start;
+  let draws = 0;
+  moves.forEach((m) => {
+    const line = describeMove(g, m);
+    g = play(g, [m]);
+    if (line === "draw") {
+      draws++;
+      return;
+    }
+    if (draws) lines.push(draws === 1 ? "draw" : `draw ×${draws}`);
+    draws = 0;
+    lines.push(line);
+  });
+  if (draws) lines.push(draws === 1 ? "draw" : `draw ×${draws}`);
+  return lines;
+};
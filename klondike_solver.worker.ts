@@ -0,0 +1,11 @@
+// web worker entry for the klondike solver
+
+import { solve, SolveRequest, SolveResponse } from "./klondike_solver";
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<SolveRequest>) => {
+  const { id, state, nodeLimit } = e.data;
+  const response: SolveResponse = { id, result: solve(state, nodeLimit) };
+  ctx.postMessage(response);
+};
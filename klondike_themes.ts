@@ -0,0 +1,158 @@
+// card and table looks for the solitaire app, picked in the appearance settings
+
+import { Suit } from "./klondike_engine";
+
+export interface CardBack {
+  name: string;
+  // any css background
+  background: string;
+}
+
+export interface FaceStyle {
+  name: string;
+  colors: Record<Suit, string>;
+  // corner rank, centre pip and the strip left showing in a tableau column,
+  // all as fractions of the card width
+  rankSize: number;
+  pipSize: number;
+  offset: number;
+  weight: number;
+  border: string;
+}
+
+export interface TableTheme {
+  name: string;
+  background: string;
+  // empty piles, and the text of the controls around the board
+  slot: string;
+  text: string;
+}
+
+export type CardBackId = "navy" | "lattice" | "checks" | "sunburst";
+export type FaceId =
+  | "classic"
+  | "fourColour"
+  | "largePrint"
+  | "largeFourColour";
+export type TableId = "white" | "felt" | "baize" | "burgundy";
+export type CardSizeId = "small" | "medium" | "large";
+
+export const CARD_BACKS: Record<CardBackId, CardBack> = {
+  navy: { name: "Navy", background: "navy" },
+  lattice: {
+    name: "Red lattice",
+    background:
+      "repeating-linear-gradient(45deg, #a11 0 5px, #d44 5px 10px), #a11",
+  },
+  checks: {
+    name: "Green checks",
+    background:
+      "repeating-conic-gradient(#1a6b3a 0 25%, #2e8b57 0 50%) 0 0 / 14px 14px",
+  },
+  sunburst: {
+    name: "Sunburst",
+    background:
+      "repeating-radial-gradient(circle, #f4c430 0 6px, #e07b00 6px 12px)",
+  },
+};
+
+const TWO_COLOURS: Record<Suit, string> = {
+  HEARTS: "red",
+  DIAMONDS: "red",
+  CLUBS: "black",
+  SPADES: "black",
+};
+// diamonds and clubs get their own colours so no two suits look alike
+const FOUR_COLOURS: Record<Suit, string> = {
+  HEARTS: "#c00000",
+  DIAMONDS: "#0040c0",
+  CLUBS: "#007000",
+  SPADES: "black",
+};
+
+const LARGE_PRINT = {
+  rankSize: 0.3,
+  pipSize: 0.5,
+  offset: 0.36,
+  weight: 700,
+  border: "2px solid black",
+};
+
+export const FACES: Record<FaceId, FaceStyle> = {
+  classic: {
+    name: "Classic",
+    colors: TWO_COLOURS,
+    rankSize: 0.16,
+    pipSize: 0.48,
+    offset: 0.25,
+    weight: 400,
+    border: "1px solid black",
+  },
+  fourColour: {
+    name: "Four-colour",
+    colors: FOUR_COLOURS,
+    rankSize: 0.16,
+    pipSize: 0.48,
+    offset: 0.25,
+    weight: 400,
+    border: "1px solid black",
+  },
+  largePrint: {
+    name: "Large print",
+    colors: { ...TWO_COLOURS, HEARTS: "#c00000", DIAMONDS: "#c00000" },
+    ...LARGE_PRINT,
+  },
+  largeFourColour: {
+    name: "Large print, four-colour",
+    colors: FOUR_COLOURS,
+    ...LARGE_PRINT,
+  },
+};
+
+export const TABLES: Record<TableId, TableTheme> = {
+  white: { name: "White", background: "white", slot: "white", text: "black" },
+  felt: {
+    name: "Green felt",
+    background: "#0b6623",
+    slot: "rgba(255, 255, 255, 0.15)",
+    text: "white",
+  },
+  baize: {
+    name: "Blue baize",
+    background: "#1d3f72",
+    slot: "rgba(255, 255, 255, 0.15)",
+    text: "white",
+  },
+  burgundy: {
+    name: "Burgundy",
+    background: "#5c1a24",
+    slot: "rgba(255, 255, 255, 0.15)",
+    text: "white",
+  },
+};
+
+// the widest a card gets at each size; smaller screens shrink it further
+export const CARD_SIZES: Record<CardSizeId, { name: string; max: number }> = {
+  small: { name: "Small", max: 72 },
+  medium: { name: "Medium", max: 100 },
+  large: { name: "Large", max: 132 },
+};
+export const MIN_CARD_WIDTH = 40;
+
+export interface CardSize {
+  width: number;
+  height: number;
+  // the strip of each card showing in a tableau column
+  offset: number;
+  gap: number;
+  // how far apart the draw-three waste fans out
+  fan: number;
+}
+
+export const cardSize = (width: number, face: FaceStyle): CardSize => ({
+  width,
+  height: Math.round(width * 1.4),
+  offset: Math.round(width * face.offset),
+  gap: Math.round(width / 10),
+  fan: Math.round(width / 5),
+});
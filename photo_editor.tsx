@@ -20,29 +20,437 @@ import {
   Button,
   Card,
   ButtonGroup,
+  ListGroup,
+  Form,
+  InputGroup,
+  Alert,
+  Modal,
 } from "react-bootstrap";
 import "bootstrap/dist/css/bootstrap.min.css";
-import { useDropzone } from "react-dropzone";
+import { useDropzone, FileRejection } from "react-dropzone";
 import {
   Type as TypeIcon,
   Circle as CircleIcon,
   Highlighter,
   Crop as CropIcon,
   CornerDownLeft as UndoIcon,
+  CornerDownRight as RedoIcon,
   Save as SaveIcon,
+  FileDown as SaveProjectIcon,
+  FolderOpen as OpenProjectIcon,
 } from "lucide-react";
 
 const THEME_FONT = 'Poppins, "Helvetica Neue", Arial, sans-serif';
 
+const ACCEPTED_TYPES = {
+  "image/png": [".png"],
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/webp": [".webp"],
+  "image/bmp": [".bmp"],
+  "image/gif": [".gif"],
+};
+
+type ExportFormat = "png" | "jpeg" | "webp";
+type ExportScale = "screen" | "original" | "double";
+
+const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; type: string; lossy: boolean }
+> = {
+  png: { label: "PNG", type: "image/png", lossy: false },
+  jpeg: { label: "JPEG", type: "image/jpeg", lossy: true },
+  webp: { label: "WebP", type: "image/webp", lossy: true },
+};
+
+// each size is a multiple of the image's own pixels; only "as shown"
+// follows the zoom, the others come out the same however big the window is
+const EXPORT_SCALES: Record<
+  ExportScale,
+  { label: string; factor: (zoom: number) => number }
+> = {
+  screen: { label: "1x (as shown on screen)", factor: (zoom) => zoom },
+  original: { label: "Original pixels", factor: () => 1 },
+  double: { label: "2x original pixels", factor: () => 2 },
+};
+
+interface CropArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// an editable project: the image as it was opened, the crop taken out of
+// it, and the edits in the cropped image's coordinates
+interface Project {
+  name: string;
+  source: Blob;
+  crop: CropArea | null;
+  edits: Edit[];
+}
+
+// saved files carry the source as a data url; the autosave keeps the blob
+const PROJECT_VERSION = 1;
+interface ProjectFile {
+  version: number;
+  name: string;
+  source: string;
+  crop: CropArea | null;
+  edits: Edit[];
+}
+
+const isNumber = (v: any) => typeof v === "number" && isFinite(v);
+
+const isCropArea = (c: any): c is CropArea =>
+  !!c &&
+  isNumber(c.x) &&
+  isNumber(c.y) &&
+  isNumber(c.width) &&
+  isNumber(c.height) &&
+  c.width >= 1 &&
+  c.height >= 1;
+
+const isColour = (v: any) => typeof v === "string";
+const isSize = (v: any) => isNumber(v) && v > 0;
+
+// files come from anywhere and their data is spread into konva props, so
+// each edit is rebuilt from only the keys its type uses
+const readEdit = (e: any): Edit | null => {
+  const d = e?.data;
+  if (!d || typeof d !== "object") return null;
+  switch (e.type) {
+    case "text":
+      if (
+        typeof d.text !== "string" ||
+        !isNumber(d.x) ||
+        !isNumber(d.y) ||
+        !isSize(d.fontSize) ||
+        !isSize(d.width) ||
+        !isColour(d.fill)
+      )
+        return null;
+      return {
+        type: "text",
+        data: {
+          text: d.text,
+          x: d.x,
+          y: d.y,
+          fontSize: d.fontSize,
+          width: d.width,
+          fill: d.fill,
+          draggable: true,
+        },
+      };
+    case "circle":
+      if (
+        !isNumber(d.x) ||
+        !isNumber(d.y) ||
+        !isSize(d.radius) ||
+        !isColour(d.stroke) ||
+        !isSize(d.strokeWidth)
+      )
+        return null;
+      return {
+        type: "circle",
+        data: {
+          x: d.x,
+          y: d.y,
+          radius: d.radius,
+          stroke: d.stroke,
+          strokeWidth: d.strokeWidth,
+          draggable: true,
+        },
+      };
+    case "highlight":
+      if (
+        !Array.isArray(d.points) ||
+        d.points.length % 2 !== 0 ||
+        !d.points.every(isNumber) ||
+        !isColour(d.stroke) ||
+        !isSize(d.strokeWidth)
+      )
+        return null;
+      return {
+        type: "highlight",
+        data: {
+          points: d.points,
+          stroke: d.stroke,
+          strokeWidth: d.strokeWidth,
+          lineCap: "round",
+          lineJoin: "round",
+          listening: false,
+        },
+      };
+    default:
+      return null;
+  }
+};
+
+const readProject = (p: any): Project | null => {
+  if (
+    !p ||
+    typeof p.name !== "string" ||
+    !(p.source instanceof Blob) ||
+    !(p.crop === null || isCropArea(p.crop)) ||
+    !Array.isArray(p.edits)
+  )
+    return null;
+  const edits: Edit[] = [];
+  for (const e of p.edits) {
+    const edit = readEdit(e);
+    if (!edit) return null;
+    edits.push(edit);
+  }
+  const crop = p.crop && {
+    x: p.crop.x,
+    y: p.crop.y,
+    width: p.crop.width,
+    height: p.crop.height,
+  };
+  return { name: p.name, source: p.source, crop, edits };
+};
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const projectJson = async (p: Project) => {
+  const file: ProjectFile = {
+    version: PROJECT_VERSION,
+    name: p.name,
+    source: await blobToDataUrl(p.source),
+    crop: p.crop,
+    edits: p.edits,
+  };
+  return JSON.stringify(file);
+};
+
+// checks a project read back from a file before anything is opened
+const parseProject = async (
+  text: string
+): Promise<{ ok: true; project: Project } | { ok: false; error: string }> => {
+  let p: any;
+  try {
+    p = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "not a JSON file" };
+  }
+  if (p?.version !== PROJECT_VERSION)
+    return { ok: false, error: "not a project this version can read" };
+  if (typeof p.source !== "string" || !p.source.startsWith("data:image/"))
+    return { ok: false, error: "the project has no image" };
+  let source: Blob;
+  try {
+    source = await (await fetch(p.source)).blob();
+  } catch {
+    return { ok: false, error: "the project's image is damaged" };
+  }
+  const project = readProject({ ...p, source });
+  if (!project) return { ok: false, error: "the project is damaged" };
+  return { ok: true, project };
+};
+
+// the autosave is a single record, overwritten as the project changes
+const AUTOSAVE_DB = "photo-editor";
+const AUTOSAVE_STORE = "projects";
+const AUTOSAVE_KEY = "autosave";
+
+const autosaveRequest = <T,>(
+  mode: IDBTransactionMode,
+  use: (store: IDBObjectStore) => IDBRequest<T>
+) =>
+  new Promise<T>((resolve, reject) => {
+    const open = indexedDB.open(AUTOSAVE_DB, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(AUTOSAVE_STORE);
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const db = open.result;
+      const tx = db.transaction(AUTOSAVE_STORE, mode);
+      const request = use(tx.objectStore(AUTOSAVE_STORE));
+      tx.oncomplete = () => {
+        db.close();
+        resolve(request.result);
+      };
+      tx.onerror = () => {
+        db.close();
+        reject(tx.error);
+      };
+    };
+  });
+
+const loadAutosave = async (): Promise<Project | null> => {
+  const record: any = await autosaveRequest("readonly", (store) =>
+    store.get(AUTOSAVE_KEY)
+  );
+  if (record?.version !== PROJECT_VERSION) return null;
+  const { version, ...project } = record;
+  return readProject(project);
+};
+
+const storeAutosave = (p: Project) =>
+  autosaveRequest("readwrite", (store) =>
+    store.put({ version: PROJECT_VERSION, ...p }, AUTOSAVE_KEY)
+  );
+
+// "holiday.jpg" or "https://example.com/photos/holiday.jpg" → "holiday"
+const projectNameOf = (name: string) => {
+  const last = name.split(/[?#]/)[0].split("/").filter(Boolean).pop() ?? "";
+  return last.replace(/\.[^.]+$/, "") || "image";
+};
+
+const cropImage = (image: HTMLImageElement, area: CropArea) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = area.width;
+    canvas.height = area.height;
+    const ctx = canvas.getContext("2d")!;
+    ctx.drawImage(
+      image,
+      area.x,
+      area.y,
+      area.width,
+      area.height,
+      0,
+      0,
+      area.width,
+      area.height
+    );
+    const newImg = new Image();
+    newImg.onload = () => resolve(newImg);
+    newImg.onerror = () => reject(new Error("crop failed"));
+    newImg.src = canvas.toDataURL();
+  });
+
+// decodes the file and draws it once onto a canvas, so the editor always
+// works on a still, upright picture. browsers apply a jpeg's exif
+// orientation when drawing it, and draw the first frame of a gif
+const decodeImage = async (blob: Blob): Promise<HTMLImageElement> => {
+  const source = new Image();
+  const url = URL.createObjectURL(blob);
+  source.src = url;
+  try {
+    await source.decode();
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = source.naturalWidth;
+  canvas.height = source.naturalHeight;
+  canvas.getContext("2d")?.drawImage(source, 0, 0);
+  const flat = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve)
+  );
+  if (!flat) throw new Error("image too large to edit");
+
+  // a decoded image keeps its pixels, so the url can go straight away
+  const img = new Image();
+  const flatUrl = URL.createObjectURL(flat);
+  img.src = flatUrl;
+  try {
+    await img.decode();
+  } finally {
+    URL.revokeObjectURL(flatUrl);
+  }
+  return img;
+};
+
 interface Edit {
   type: "text" | "circle" | "highlight";
   data: any;
 }
 
+interface Doc {
+  image: HTMLImageElement | null;
+  edits: Edit[];
+}
+
+// every change to the picture is one of these, holding what it takes to
+// undo it as well as do it. a crop keeps both images rather than copying
+// the edits, it only has to move them back
+type Command =
+  | { type: "add"; label: string; edit: Edit }
+  | {
+      type: "change";
+      label: string;
+      index: number;
+      before: Edit;
+      after: Edit;
+    }
+  | {
+      type: "crop";
+      label: string;
+      from: HTMLImageElement;
+      to: HTMLImageElement;
+      dx: number;
+      dy: number;
+    };
+
+const shiftEdit = (edit: Edit, dx: number, dy: number): Edit => {
+  const e = { ...edit, data: { ...edit.data } };
+  switch (e.type) {
+    case "text":
+    case "circle":
+      e.data.x += dx;
+      e.data.y += dy;
+      return e;
+    case "highlight":
+      if (Array.isArray(e.data.points)) {
+        e.data.points = e.data.points.map((v: number, i: number) =>
+          i % 2 === 0 ? v + dx : v + dy
+        );
+      }
+      return e;
+    default:
+      return e;
+  }
+};
+
+const applyCommand = (doc: Doc, c: Command): Doc => {
+  switch (c.type) {
+    case "add":
+      return { ...doc, edits: [...doc.edits, c.edit] };
+    case "change":
+      return {
+        ...doc,
+        edits: doc.edits.map((e, i) => (i === c.index ? c.after : e)),
+      };
+    case "crop":
+      return {
+        image: c.to,
+        edits: doc.edits.map((e) => shiftEdit(e, -c.dx, -c.dy)),
+      };
+  }
+};
+
+// history is a straight line, so an added edit is always the last one
+const revertCommand = (doc: Doc, c: Command): Doc => {
+  switch (c.type) {
+    case "add":
+      return { ...doc, edits: doc.edits.slice(0, -1) };
+    case "change":
+      return {
+        ...doc,
+        edits: doc.edits.map((e, i) => (i === c.index ? c.before : e)),
+      };
+    case "crop":
+      return {
+        image: c.from,
+        edits: doc.edits.map((e) => shiftEdit(e, c.dx, c.dy)),
+      };
+  }
+};
+
 const App: React.FC = () => {
-  const [history, setHistory] = useState<
-    { image: HTMLImageElement | null; edits: Edit[] }[]
-  >([]);
+  // commands before position are applied, the rest are there to redo
+  const [history, setHistory] = useState<{
+    commands: Command[];
+    position: number;
+  }>({ commands: [], position: 0 });
 
   const [image, setImage] = useState<HTMLImageElement | null>(null);
   const [edits, setEdits] = useState<Edit[]>([]);
@@ -73,22 +481,229 @@ const App: React.FC = () => {
 
   const [stageScale, setStageScale] = useState(1);
 
-  const onDrop = useCallback((files: File[]) => {
-    const file = files[0];
-    const img = new Image();
-    img.src = URL.createObjectURL(file);
-    img.onload = () => {
-      setImage(img);
-      setEdits([]);
-      setSelectedEditIndex(null);
+  const [imageUrl, setImageUrl] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [showExport, setShowExport] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("png");
+  const [exportQuality, setExportQuality] = useState(0.92);
+  const [exportScale, setExportScale] = useState<ExportScale>("original");
+  const [exportName, setExportName] = useState("edited");
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+
+  const [source, setSource] = useState<Blob | null>(null);
+  const [projectName, setProjectName] = useState("image");
+  const [autosaveFailed, setAutosaveFailed] = useState(false);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  // set once anything is opened, so a late autosave doesn't replace it
+  const openedRef = useRef(false);
+  // counts opens, so one that finishes after a newer one is dropped
+  const loadsRef = useRef(0);
+
+  // opening starts a fresh history. a saved crop is put back as its first
+  // step, so it can still be undone
+  const openProject = useCallback(
+    async (project: Project, label = project.name) => {
+      openedRef.current = true;
+      const load = ++loadsRef.current;
+      setLoadError(null);
+      setIsLoading(true);
+      try {
+        const img = await decodeImage(project.source);
+        const crop = project.crop;
+        const shown = crop ? await cropImage(img, crop) : img;
+        if (load !== loadsRef.current) return;
+        const commands: Command[] = crop
+          ? [
+              {
+                type: "crop",
+                label: "Crop",
+                from: img,
+                to: shown,
+                dx: crop.x,
+                dy: crop.y,
+              },
+            ]
+          : [];
+        setSource(project.source);
+        setProjectName(project.name);
+        setImage(shown);
+        setEdits(project.edits);
+        setHistory({ commands, position: commands.length });
+        setSelectedEditIndex(null);
+      } catch {
+        if (load !== loadsRef.current) return;
+        setLoadError(
+          `Couldn't open ${label}: the file is damaged or isn't an image this browser can read.`
+        );
+      } finally {
+        if (load === loadsRef.current) setIsLoading(false);
+      }
+    },
+    []
+  );
+
+  const openImage = useCallback(
+    (blob: Blob, name: string) =>
+      openProject(
+        { name: projectNameOf(name), source: blob, crop: null, edits: [] },
+        name
+      ),
+    [openProject]
+  );
+
+  // crops are taken one after another, so together they start at the sum
+  // of their offsets and are as big as the image now is
+  const currentCrop = (): CropArea | null => {
+    if (!image) return null;
+    const crops = history.commands
+      .slice(0, history.position)
+      .filter(
+        (c): c is Extract<Command, { type: "crop" }> => c.type === "crop"
+      );
+    if (crops.length === 0) return null;
+    return {
+      x: crops.reduce((sum, c) => sum + c.dx, 0),
+      y: crops.reduce((sum, c) => sum + c.dy, 0),
+      width: image.width,
+      height: image.height,
     };
+  };
+
+  const saveProject = async () => {
+    if (!source) return;
+    const text = await projectJson({
+      name: projectName,
+      source,
+      crop: currentCrop(),
+      edits,
+    });
+    const link = document.createElement("a");
+    link.download = `${projectName}.json`;
+    link.href = URL.createObjectURL(
+      new Blob([text], { type: "application/json" })
+    );
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const openProjectFile = async (file: File) => {
+    const result = await parseProject(await file.text());
+    if (!result.ok) {
+      setLoadError(`Couldn't open ${file.name}: ${result.error}.`);
+      return;
+    }
+    openProject(result.project, file.name);
+  };
+
+  // pick up where the last visit left off
+  useEffect(() => {
+    loadAutosave()
+      .then(
+        (project) => project && !openedRef.current && openProject(project)
+      )
+      .catch(() => setAutosaveFailed(true));
+  }, [openProject]);
+
+  useEffect(() => {
+    if (!source) return;
+    // waits for a pause, rather than writing the image out on every change
+    const timer = setTimeout(() => {
+      storeAutosave({
+        name: projectName,
+        source,
+        crop: currentCrop(),
+        edits,
+      })
+        .then(() => setAutosaveFailed(false))
+        .catch(() => setAutosaveFailed(true));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [source, projectName, image, edits]);
+
+  const onDrop = useCallback(
+    (files: File[]) => {
+      const file = files[0];
+      if (file) openImage(file, file.name);
+    },
+    [openImage]
+  );
+
+  const onDropRejected = useCallback((rejections: FileRejection[]) => {
+    const name = rejections[0]?.file.name ?? "that file";
+    setLoadError(
+      rejections.length > 1
+        ? "Drop one image at a time."
+        : `${name} isn't a PNG, JPEG, WebP, BMP or GIF image.`
+    );
   }, []);
 
   const { getRootProps, getInputProps } = useDropzone({
     onDrop,
-    accept: { "image/png": [".png"] },
+    onDropRejected,
+    accept: ACCEPTED_TYPES,
+    multiple: false,
   });
 
+  // fetched rather than loaded straight into an <img>, so a picture from
+  // another site doesn't taint the canvas and block saving
+  const loadFromUrl = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = imageUrl.trim();
+    if (!url) return;
+    let blob: Blob;
+    const load = ++loadsRef.current;
+    setLoadError(null);
+    setIsLoading(true);
+    try {
+      const response = await fetch(url);
+      if (load !== loadsRef.current) return;
+      if (!response.ok) {
+        setLoadError(
+          `Couldn't load ${url}: the server answered ${response.status}.`
+        );
+        setIsLoading(false);
+        return;
+      }
+      blob = await response.blob();
+    } catch {
+      if (load !== loadsRef.current) return;
+      setLoadError(
+        `Couldn't load ${url}. The site may not allow its images to be used from other pages.`
+      );
+      setIsLoading(false);
+      return;
+    }
+    if (load !== loadsRef.current) return;
+    openImage(blob, url);
+  };
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData?.files ?? []);
+      // plain text is left alone, e.g. a url pasted into the url box
+      if (files.length === 0) return;
+      event.preventDefault();
+      const file = files.find((f) => f.type in ACCEPTED_TYPES);
+      if (!file) {
+        setLoadError(
+          "The pasted file isn't a PNG, JPEG, WebP, BMP or GIF image."
+        );
+        return;
+      }
+      openProject(
+        { name: "pasted image", source: file, crop: null, edits: [] },
+        "the pasted image"
+      );
+    };
+
+    window.addEventListener("paste", handlePaste);
+    return () => {
+      window.removeEventListener("paste", handlePaste);
+    };
+  }, [openProject]);
+
   const getUnscaledPointer = (): { x: number; y: number } | null => {
     const stage = stageRef.current;
     if (!stage) return null;
@@ -100,13 +715,75 @@ const App: React.FC = () => {
       y: pos.y / scale,
     };
   };
-  const pushSnapshot = () => {
-    setHistory((h) => [
-      ...h,
-      { image: image, edits: JSON.parse(JSON.stringify(edits)) },
-    ]);
+
+  // does the command and drops anything that was there to redo
+  const run = (command: Command) => {
+    const next = applyCommand({ image, edits }, command);
+    setImage(next.image);
+    setEdits(next.edits);
+    setHistory((h) => ({
+      commands: [...h.commands.slice(0, h.position), command],
+      position: h.position + 1,
+    }));
   };
 
+  const changeEdit = (index: number, label: string, data: any) => {
+    const before = edits[index];
+    run({
+      type: "change",
+      label,
+      index,
+      before,
+      after: { ...before, data: { ...before.data, ...data } },
+    });
+  };
+
+  // undoes or redoes one command at a time until position is reached
+  const jumpTo = (position: number) => {
+    let doc: Doc = { image, edits };
+    for (let p = history.position; p > position; p--)
+      doc = revertCommand(doc, history.commands[p - 1]);
+    for (let p = history.position; p < position; p++)
+      doc = applyCommand(doc, history.commands[p]);
+    setImage(doc.image);
+    setEdits(doc.edits);
+    setHistory((h) => ({ ...h, position }));
+    setSelectedEditIndex(null);
+  };
+
+  const undo = () => {
+    if (history.position > 0) jumpTo(history.position - 1);
+  };
+  const redo = () => {
+    if (history.position < history.commands.length)
+      jumpTo(history.position + 1);
+  };
+
+  useEffect(() => {
+    const handleUndoKeys = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      // the text being edited has its own undo
+      if (
+        event.target instanceof HTMLTextAreaElement ||
+        event.target instanceof HTMLInputElement
+      )
+        return;
+      const key = event.key.toLowerCase();
+      if (key === "y" || (key === "z" && event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      } else if (key === "z") {
+        event.preventDefault();
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleUndoKeys);
+    return () => {
+      window.removeEventListener("keydown", handleUndoKeys);
+    };
+  }, [history, image, edits]);
+
   useEffect(() => {
     const handleEscape = (event: KeyboardEvent) => {
       if (event.key === "Escape") {
@@ -242,47 +919,39 @@ const App: React.FC = () => {
       setIsHighlighting(false);
       const pos = getUnscaledPointer();
       if (!pos) return;
-      setEdits((prev) => {
-        const idx = prev.length;
-        const newEdit: Edit = {
-          type: "text",
-          data: {
-            text: "click to edit text…",
-            x: pos.x,
-            y: pos.y,
-            fontSize: 30,
-            width: 150,
-            fill: "#333",
-            draggable: true,
-          },
-        };
-        setSelectedEditIndex(idx);
-        return [...prev, newEdit];
-      });
-      pushSnapshot();
+      const newEdit: Edit = {
+        type: "text",
+        data: {
+          text: "click to edit text…",
+          x: pos.x,
+          y: pos.y,
+          fontSize: 30,
+          width: 150,
+          fill: "#333",
+          draggable: true,
+        },
+      };
+      run({ type: "add", label: "Add text", edit: newEdit });
+      setSelectedEditIndex(edits.length);
       setIsAddingText(false);
     } else if (isAddingCircle) {
       setIsAddingText(false);
       setIsHighlighting(false);
       const pos = getUnscaledPointer();
       if (!pos) return;
-      setEdits((prev) => {
-        const idx = prev.length;
-        const newCircle: Edit = {
-          type: "circle",
-          data: {
-            x: pos.x,
-            y: pos.y,
-            radius: 20,
-            stroke: "#FF3030",
-            strokeWidth: 3,
-            draggable: true,
-          },
-        };
-        setSelectedEditIndex(idx);
-        return [...prev, newCircle];
-      });
-      pushSnapshot();
+      const newCircle: Edit = {
+        type: "circle",
+        data: {
+          x: pos.x,
+          y: pos.y,
+          radius: 20,
+          stroke: "#FF3030",
+          strokeWidth: 3,
+          draggable: true,
+        },
+      };
+      run({ type: "add", label: "Add circle", edit: newCircle });
+      setSelectedEditIndex(edits.length);
       setIsAddingCircle(false);
     }
   };
@@ -386,82 +1055,122 @@ const App: React.FC = () => {
   };
 
   const updateText = (idx: number, newText: string) => {
-    setEdits((eds) => {
-      const copy = [...eds];
-      copy[idx] = { ...copy[idx], data: { ...copy[idx].data, text: newText } };
-      return copy;
-    });
+    // closing the box without typing isn't a change worth undoing
+    if (newText === edits[idx].data.text) return;
+    changeEdit(idx, "Edit text", { text: newText });
   };
 
-  const undo = () => {
-    setHistory((h) => {
-      if (h.length === 0) return h;
-      const last = h[h.length - 1];
-      setImage(last.image);
-      setEdits(last.edits);
-      return h.slice(0, -1);
+  // the stage is drawn at stageScale, so the pixel ratio undoes the zoom
+  // before applying the chosen multiple of the image's size
+  const exportRatio = (scale: ExportScale) =>
+    EXPORT_SCALES[scale].factor(stageScale) / stageScale;
+
+  const exportSize = (scale: ExportScale) => {
+    if (!image) return { width: 0, height: 0 };
+    const ratio = EXPORT_SCALES[scale].factor(stageScale);
+    return {
+      width: Math.round(image.width * ratio),
+      height: Math.round(image.height * ratio),
+    };
+  };
+
+  const renderExport = (format: ExportFormat, scale: ExportScale) => {
+    const stage = stageRef.current;
+    if (!stage || !image) return null;
+    // selection handles and the crop box aren't part of the picture
+    const overlays = [transformerRef.current, cropRef.current].filter(
+      (n): n is Konva.Transformer | Konva.Rect => !!n && n.visible()
+    );
+    overlays.forEach((n) => n.hide());
+    const drawn = stage.toCanvas({
+      x: 0,
+      y: 0,
+      width: image.width * stageScale,
+      height: image.height * stageScale,
+      pixelRatio: exportRatio(scale),
     });
+    overlays.forEach((n) => n.show());
+    if (format !== "jpeg") return drawn;
+
+    // jpeg has no transparency; left to the browser, clear pixels turn black
+    const canvas = document.createElement("canvas");
+    canvas.width = drawn.width;
+    canvas.height = drawn.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return drawn;
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(drawn, 0, 0);
+    return canvas;
   };
 
-  const saveImage = () => {
-    if (!stageRef.current) return;
-    const uri = stageRef.current.toDataURL();
+  const exportBlob = (format: ExportFormat, scale: ExportScale) =>
+    new Promise<Blob | null>((resolve) => {
+      const canvas = renderExport(format, scale);
+      if (!canvas) return resolve(null);
+      canvas.toBlob(
+        resolve,
+        EXPORT_FORMATS[format].type,
+        EXPORT_FORMATS[format].lossy ? exportQuality : undefined
+      );
+    });
+
+  const saveImage = async () => {
+    const blob = await exportBlob(exportFormat, exportScale);
+    if (!blob) {
+      setExportStatus("The image couldn't be exported at that size.");
+      return;
+    }
+    // without an encoder for the format, toBlob quietly hands back a png
+    if (blob.type !== EXPORT_FORMATS[exportFormat].type) {
+      setExportStatus(
+        `This browser can't export ${EXPORT_FORMATS[exportFormat].label}.`
+      );
+      return;
+    }
+    // a typed extension is replaced by the chosen format's
+    const base = exportName.trim().replace(/\.(png|jpe?g|webp)$/i, "");
+    const ext = exportFormat === "jpeg" ? "jpg" : exportFormat;
+    const uri = URL.createObjectURL(blob);
     const link = document.createElement("a");
-    link.download = "edited.png";
+    link.download = `${base || "edited"}.${ext}`;
     link.href = uri;
     link.click();
+    URL.revokeObjectURL(uri);
+    setShowExport(false);
   };
 
-  const applyCrop = () => {
-    if (!image) return;
-    pushSnapshot();
-
-    const canvas = document.createElement("canvas");
-    canvas.width = cropRect.width;
-    canvas.height = cropRect.height;
-    const ctx = canvas.getContext("2d")!;
-    ctx.drawImage(
-      image,
-      cropRect.x,
-      cropRect.y,
-      cropRect.width,
-      cropRect.height,
-      0,
-      0,
-      cropRect.width,
-      cropRect.height
-    );
-    const newImg = new Image();
-    newImg.src = canvas.toDataURL();
+  // browsers only take png on the clipboard, whatever format is picked
+  const copyImage = async () => {
+    const blob = await exportBlob("png", exportScale);
+    if (!blob) {
+      setExportStatus("The image couldn't be exported at that size.");
+      return;
+    }
+    try {
+      await navigator.clipboard.write([
+        new ClipboardItem({ "image/png": blob }),
+      ]);
+      setExportStatus("Copied to the clipboard as PNG.");
+    } catch {
+      setExportStatus("This browser didn't allow copying the image.");
+    }
+  };
 
-    newImg.onload = () => {
-      const dx = cropRect.x;
-      const dy = cropRect.y;
-      const shifted = edits.map((edit) => {
-        const e = { ...edit, data: { ...edit.data } };
-        switch (e.type) {
-          case "text":
-          case "circle":
-            e.data.x -= dx;
-            e.data.y -= dy;
-            return e;
-          case "highlight":
-            if (Array.isArray(e.data.points)) {
-              e.data.points = e.data.points.map((v: number, i: number) =>
-                i % 2 === 0 ? v - dx : v - dy
-              );
-            }
-            return e;
-          default:
-            return e;
-        }
-      });
+  const applyCrop = async () => {
+    if (!image) return;
 
-      setImage(newImg);
-      setEdits(shifted);
-      setIsCropping(false);
-      setCropRect({ x: 0, y: 0, width: newImg.width, height: newImg.height });
-    };
+    const newImg = await cropImage(image, cropRect);
+    run({
+      type: "crop",
+      label: "Crop",
+      from: image,
+      to: newImg,
+      dx: cropRect.x,
+      dy: cropRect.y,
+    });
+    setIsCropping(false);
+    setCropRect({ x: 0, y: 0, width: newImg.width, height: newImg.height });
   };
 
   return (
@@ -585,39 +1294,137 @@ const App: React.FC = () => {
                 )}
               </ButtonGroup>
 
-              {/* Put Undo in its own group so it’s a normal button, not part of the radio set */}
-              <ButtonGroup vertical className="w-100 mb-3">
+              {/* Put Undo and Redo in their own group so they're normal buttons, not part of the radio set */}
+              <ButtonGroup className="w-100 mb-3">
                 <Button
                   variant="secondary"
                   onClick={undo}
-                  disabled={history.length === 0}
-                  className="d-flex align-items-center"
+                  disabled={history.position === 0}
+                  title="Undo (Ctrl+Z)"
+                  className="d-flex align-items-center justify-content-center"
                 >
                   <UndoIcon size={18} className="me-2" />
                   Undo
                 </Button>
+                <Button
+                  variant="secondary"
+                  onClick={redo}
+                  disabled={history.position === history.commands.length}
+                  title="Redo (Ctrl+Y)"
+                  className="d-flex align-items-center justify-content-center"
+                >
+                  <RedoIcon size={18} className="me-2" />
+                  Redo
+                </Button>
               </ButtonGroup>
+              {image && (
+                <Card className="shadow-sm mb-3">
+                  <Card.Header className="py-1 fw-bold">History</Card.Header>
+                  {/* Click an entry to go back (or forward) to it */}
+                  <ListGroup
+                    variant="flush"
+                    style={{ maxHeight: 180, overflowY: "auto" }}
+                  >
+                    {[
+                      "Open image",
+                      ...history.commands.map((c) => c.label),
+                    ].map((label, p) => (
+                      <ListGroup.Item
+                        key={p}
+                        action
+                        active={p === history.position}
+                        onClick={() => jumpTo(p)}
+                        className={`py-1 ${
+                          p > history.position ? "text-muted" : ""
+                        }`}
+                      >
+                        {label}
+                      </ListGroup.Item>
+                    ))}
+                  </ListGroup>
+                </Card>
+              )}
               <ToggleButton
                 id="tool-add-text"
                 type="radio"
                 name="tool"
                 value="text"
                 variant="success"
-                onClick={saveImage}
+                onClick={() => {
+                  setExportStatus(null);
+                  setShowExport(true);
+                }}
                 disabled={!image}
                 className="d-flex	align-items-center	justify-content-center text-white mb-3"
               >
                 <SaveIcon size={18} className="me-2" /> Save Image
               </ToggleButton>
+              {/* Projects keep the edits editable, unlike a saved image */}
+              <ButtonGroup className="w-100 mb-3">
+                <Button
+                  variant="outline-secondary"
+                  onClick={saveProject}
+                  disabled={!source}
+                  className="d-flex align-items-center justify-content-center"
+                >
+                  <SaveProjectIcon size={18} className="me-2" />
+                  Save project
+                </Button>
+                <Button
+                  variant="outline-secondary"
+                  onClick={() => projectInputRef.current?.click()}
+                  className="d-flex align-items-center justify-content-center"
+                >
+                  <OpenProjectIcon size={18} className="me-2" />
+                  Open project
+                </Button>
+              </ButtonGroup>
+              <input
+                ref={projectInputRef}
+                type="file"
+                accept=".json,application/json"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) openProjectFile(file);
+                  e.target.value = "";
+                }}
+              />
+              {autosaveFailed && (
+                <div className="text-muted small mb-3">
+                  This browser isn't keeping an autosave, so save the project
+                  before leaving.
+                </div>
+              )}
               <Card className="border-primary shadow-sm mt-auto">
                 <Card.Body {...getRootProps()} className="text-center py-3">
                   <input {...getInputProps()} />
                   <Highlighter size={32} className="text-primary mb-2" />
                   <div className="text-primary">
-                    Drop PNG here or click to upload
+                    Drop an image here, click to upload or paste with Ctrl+V
+                  </div>
+                  <div className="text-muted small">
+                    PNG, JPEG, WebP, BMP or GIF
                   </div>
                 </Card.Body>
               </Card>
+              <Form onSubmit={loadFromUrl} className="mt-2">
+                <InputGroup size="sm">
+                  <Form.Control
+                    type="url"
+                    placeholder="…or an image URL"
+                    value={imageUrl}
+                    onChange={(e) => setImageUrl(e.target.value)}
+                  />
+                  <Button
+                    type="submit"
+                    variant="outline-primary"
+                    disabled={!imageUrl.trim() || isLoading}
+                  >
+                    Load
+                  </Button>
+                </InputGroup>
+              </Form>
             </Card.Body>
           </Card>
         </Col>
@@ -631,6 +1438,15 @@ const App: React.FC = () => {
           >
             Image Editor
           </Card.Title>
+          {loadError && (
+            <Alert
+              variant="danger"
+              dismissible
+              onClose={() => setLoadError(null)}
+            >
+              {loadError}
+            </Alert>
+          )}
           <Col className="d-flex	flex-column justify-content-center	align-items-center overflow-hidden">
             {image && (
               <Card className="shadow-sm">
@@ -664,10 +1480,10 @@ const App: React.FC = () => {
                       }}
                       onMouseUp={() => {
                         if (!isHighlighting || !isDrawingHighlight) return;
-                        pushSnapshot();
-                        setEdits((prev) => [
-                          ...prev,
-                          {
+                        run({
+                          type: "add",
+                          label: "Highlight",
+                          edit: {
                             type: "highlight",
                             data: {
                               points: currentStroke,
@@ -678,7 +1494,7 @@ const App: React.FC = () => {
                               listening: false,
                             },
                           },
-                        ]);
+                        });
                         setCurrentStroke([]);
                         setIsDrawingHighlight(false);
                       }}
@@ -718,11 +1534,10 @@ const App: React.FC = () => {
                                       }
                                     }}
                                     onDragEnd={(e) => {
-                                      const arr = [...edits];
-                                      arr[i].data.x = e.target.x();
-                                      arr[i].data.y = e.target.y();
-                                      setEdits(arr);
-                                      pushSnapshot();
+                                      changeEdit(i, "Move text", {
+                                        x: e.target.x(),
+                                        y: e.target.y(),
+                                      });
                                     }}
                                     onTransformEnd={(e) => {
                                       const node = e.target as Konva.Text;
@@ -794,18 +1609,12 @@ const App: React.FC = () => {
                                         finalWidth
                                       );
 
-                                      setEdits((arr) => {
-                                        const copy = [...arr];
-                                        copy[i].data = {
-                                          ...copy[i].data,
-                                          width: finalWidth,
-                                          fontSize: finalFontSize,
-                                          x: newX,
-                                          y: newY,
-                                        };
-                                        return copy;
+                                      changeEdit(i, "Resize text", {
+                                        width: finalWidth,
+                                        fontSize: finalFontSize,
+                                        x: newX,
+                                        y: newY,
                                       });
-                                      pushSnapshot();
                                       node.width(finalWidth);
                                       node.fontSize(finalFontSize);
                                       node.position({ x: newX, y: newY });
@@ -830,33 +1639,16 @@ const App: React.FC = () => {
                                     }}
                                     onDragEnd={(e) => {
                                       const { x, y } = e.target.position();
-                                      setEdits((edits) => {
-                                        const copy = [...edits];
-                                        copy[i] = {
-                                          ...copy[i],
-                                          data: { ...copy[i].data, x, y },
-                                        };
-                                        return copy;
-                                      });
-                                      pushSnapshot();
+                                      changeEdit(i, "Move circle", { x, y });
                                     }}
                                     onTransformEnd={(e) => {
                                       const node = e.target as Konva.Circle;
                                       const newRadius =
                                         node.radius() * node.scaleX();
                                       node.scale({ x: 1, y: 1 });
-                                      setEdits((edits) => {
-                                        const copy = [...edits];
-                                        copy[i] = {
-                                          ...copy[i],
-                                          data: {
-                                            ...copy[i].data,
-                                            radius: newRadius,
-                                          },
-                                        };
-                                        return copy;
+                                      changeEdit(i, "Resize circle", {
+                                        radius: newRadius,
                                       });
-                                      pushSnapshot();
                                     }}
                                   />
                                 </React.Fragment>
@@ -918,6 +1710,100 @@ const App: React.FC = () => {
           </Col>
         </Col>
       </Row>
+
+      <Modal show={showExport} onHide={() => setShowExport(false)} centered>
+        <Modal.Header closeButton>
+          <Modal.Title>Export image</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <Form
+            id="export-form"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveImage();
+            }}
+          >
+            <Form.Group className="mb-3">
+              <Form.Label>Filename</Form.Label>
+              <InputGroup>
+                <Form.Control
+                  value={exportName}
+                  onChange={(e) => setExportName(e.target.value)}
+                />
+                <InputGroup.Text>
+                  .{exportFormat === "jpeg" ? "jpg" : exportFormat}
+                </InputGroup.Text>
+              </InputGroup>
+            </Form.Group>
+            <Form.Group className="mb-3">
+              <Form.Label>Format</Form.Label>
+              <div>
+                <ButtonGroup>
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+                    <ToggleButton
+                      key={f}
+                      id={`export-format-${f}`}
+                      type="radio"
+                      name="export-format"
+                      value={f}
+                      variant="outline-primary"
+                      checked={exportFormat === f}
+                      onChange={() => setExportFormat(f)}
+                    >
+                      {EXPORT_FORMATS[f].label}
+                    </ToggleButton>
+                  ))}
+                </ButtonGroup>
+              </div>
+            </Form.Group>
+            <Form.Group className="mb-3">
+              <Form.Label>
+                Quality{" "}
+                {EXPORT_FORMATS[exportFormat].lossy
+                  ? `${Math.round(exportQuality * 100)}%`
+                  : "(PNG is lossless)"}
+              </Form.Label>
+              <Form.Range
+                min={0.1}
+                max={1}
+                step={0.01}
+                value={exportQuality}
+                disabled={!EXPORT_FORMATS[exportFormat].lossy}
+                onChange={(e) => setExportQuality(+e.target.value)}
+              />
+            </Form.Group>
+            <Form.Group>
+              <Form.Label>Size</Form.Label>
+              {(Object.keys(EXPORT_SCALES) as ExportScale[]).map((scale) => {
+                const { width, height } = exportSize(scale);
+                return (
+                  <Form.Check
+                    key={scale}
+                    type="radio"
+                    id={`export-scale-${scale}`}
+                    name="export-scale"
+                    checked={exportScale === scale}
+                    onChange={() => setExportScale(scale)}
+                    label={`${EXPORT_SCALES[scale].label} — ${width} × ${height}`}
+                  />
+                );
+              })}
+            </Form.Group>
+          </Form>
+          {exportStatus && (
+            <div className="text-muted small mt-3">{exportStatus}</div>
+          )}
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="outline-secondary" onClick={copyImage}>
+            Copy to clipboard
+          </Button>
+          <Button type="submit" form="export-form" variant="success">
+            <SaveIcon size={18} className="me-2" />
+            Save
+          </Button>
+        </Modal.Footer>
+      </Modal>
     </Container>
   );
 };